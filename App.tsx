@@ -1,21 +1,54 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { AppState, Notes, HistoryItem } from './types';
-import { GEMINI_MODEL_NAME, GEMINI_PROMPT, GEMINI_RESPONSE_SCHEMA } from './constants';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState, Notes, HistoryItem, GenerationProgress, SourceTracks, Marker, NotesProvider, ProviderSettings, NoteTemplate, ChatMessage } from './types';
 import * as db from './utils/db';
+import { generateNotes } from './utils/notesGenerator';
 import { useAudioRecorder } from './hooks/useAudioRecorder';
+import { useAudioDevices } from './hooks/useAudioDevices';
+import { useProviderSettings } from './hooks/useProviderSettings';
+import { useNoteTemplates } from './hooks/useNoteTemplates';
+import { useOutputLanguage } from './hooks/useOutputLanguage';
+import { useGlossary } from './hooks/useGlossary';
+import { useUsageSettings } from './hooks/useUsageSettings';
+import { useUsageLedger } from './hooks/useUsageLedger';
+import { useAutoTrimSilence } from './hooks/useAutoTrimSilence';
 import { NotesDisplay } from './components/NotesDisplay';
-import { RecordButton } from './components/RecordButton';
+import { RecordingScreen } from './components/RecordingScreen';
+import { ReviewScreen } from './components/ReviewScreen';
 import { Loader } from './components/Loader';
 import { Header } from './components/Header';
 import { ErrorDisplay } from './components/ErrorDisplay';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { HistoryScreen } from './components/HistoryScreen';
-import { PauseIcon, PlayIcon, SparklesIcon, TrashIcon, RetryIcon, HistoryIcon } from './components/icons';
-import { blobToBase64 } from './utils/fileUtils';
+import { RecoveryPrompt } from './components/RecoveryPrompt';
+import { SettingsScreen } from './components/SettingsScreen';
+import { VersionBar } from './components/VersionBar';
+import { RetryIcon, HistoryIcon } from './components/icons';
+import { AUTO_TRIM_MAX_SECONDS, DEFAULT_SILENCE_WARNING_SECONDS, STALE_RECORDING_SESSION_MS } from './constants';
+import { trimSilence, removeRanges, remapTime } from './utils/silenceTrimmer';
+import { mixTracks } from './utils/trackMixer';
+import { getAudioDuration, resolveAudioMimeType, validateAudioFile, extensionForMimeType, generateFilename, triggerDownload } from './utils/fileUtils';
+import { classifyError, GenerationError, GENERATION_ERROR_DETAILS } from './utils/generationErrors';
+import { createProvider } from './utils/providers';
+import { findTemplate } from './utils/templates';
+import { indexNote, syncSearchIndex } from './utils/searchIndex';
+import { translateNotes } from './utils/translation';
+import { checkBudget, createTokenCounter, estimateRecordingCost } from './utils/usage';
+import { getStorageStatus, requestPersistentStorage, checkRecordingCapacity, saveNoteWithFallback, StorageStatus } from './utils/storage';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The recording on the review screen, as it will be sent for notes.
+interface DisplayedAudio {
+  blob: Blob;
+  durationSeconds: number;
+  tracks: SourceTracks | null;
+  markers: Marker[];
+}
+
+// A saved note being regenerated; the result is stored as a new version of it.
+interface RegenerationTarget {
+  noteId: string;
+  template: NoteTemplate;
+}
 
 export default function App() {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -24,82 +57,224 @@ export default function App() {
   const [noiseReduction, setNoiseReduction] = useState<boolean>(true);
   const [recordMic, setRecordMic] = useState(true);
   const [recordSystem, setRecordSystem] = useState(false);
+  const [autoPause, setAutoPause] = useState(false);
   
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [viewingHistoryId, setViewingHistoryId] = useState<string | null>(null);
   const [displayedAudioBlob, setDisplayedAudioBlob] = useState<Blob | null>(null);
+  const [displayedDuration, setDisplayedDuration] = useState<number>(0);
+  const [displayedSourceTracks, setDisplayedSourceTracks] = useState<SourceTracks | null>(null);
+  const [displayedMarkers, setDisplayedMarkers] = useState<Marker[]>([]);
+  const [displayedTemplate, setDisplayedTemplate] = useState<NoteTemplate | undefined>(undefined);
+  const [displayedVersions, setDisplayedVersions] = useState<db.NoteVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [primaryVersionId, setPrimaryVersionId] = useState<string | null>(null);
+  const [regenerationTarget, setRegenerationTarget] = useState<RegenerationTarget | null>(null);
+  // Id of the saved record behind the displayed notes, and its conversation.
+  const [displayedNoteId, setDisplayedNoteId] = useState<string | null>(null);
+  const [displayedChat, setDisplayedChat] = useState<ChatMessage[]>([]);
+  const [importedFileName, setImportedFileName] = useState<string | null>(null);
+  const [recoverableSession, setRecoverableSession] = useState<db.RecordingSession | null>(null);
+  const [isRecoveringSession, setIsRecoveringSession] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  // Preview of the notes while they stream in. Never saved.
+  const [partialNotes, setPartialNotes] = useState<{ notes: Notes; template: NoteTemplate } | null>(null);
+  const [isTrimmingSilence, setIsTrimmingSilence] = useState(false);
+  const [trimmedSeconds, setTrimmedSeconds] = useState<number | null>(null);
+  const [silenceWarningSeconds, setSilenceWarningSeconds] = useState<number>(DEFAULT_SILENCE_WARNING_SECONDS);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [savedWithoutAudio, setSavedWithoutAudio] = useState(false);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
 
   const {
     isRecording,
     isPaused,
+    isAutoPaused,
     recordingTime,
     audioBlob,
+    sourceTracks,
+    markers,
+    addMarker,
+    analysers,
+    activeMicDeviceId,
+    lastMicSwitch,
+    switchMicDevice,
     startRecording,
     stopRecording,
     togglePause,
     resetRecorder,
+    recoverSession,
+    clearPersistedSession,
   } = useAudioRecorder();
 
-  // Load history on mount
+  const { settings: providerSettings, updateSettings: updateProviderSettings, provider } = useProviderSettings();
+
+  const { templates, customTemplates, selectedTemplate, selectTemplate, saveTemplate, deleteTemplate } = useNoteTemplates();
+
+  const { outputLanguage, selectOutputLanguage } = useOutputLanguage();
+  const { glossary, updateGlossary, addEntry: addGlossaryEntry } = useGlossary();
+  const { usageSettings, updateUsageSettings } = useUsageSettings();
+  const { autoTrimSilence, updateAutoTrimSilence } = useAutoTrimSilence();
+  const { ledger: usageLedger, recordUsage } = useUsageLedger(usageSettings.prices);
+
+  const { devices: micDevices, selectedDeviceId: micDeviceId, selectDevice: selectMicDevice, refreshDevices } = useAudioDevices();
+
+  // Shows one version of a saved note, defaulting to its primary version.
+  const showNoteVersion = useCallback((record: db.NoteRecord, versionId = db.primaryVersionId(record)) => {
+    const versions = db.noteVersions(record);
+    const version = versions.find(v => v.id === versionId) ?? versions[0];
+    setNotes(version.notes);
+    setDisplayedTemplate(version.template);
+    setDisplayedVersions(versions);
+    setActiveVersionId(version.id);
+    setPrimaryVersionId(db.primaryVersionId(record));
+    setDisplayedNoteId(record.id);
+    setDisplayedChat(record.chat ?? []);
+  }, []);
+
+  // Load history and look for an interrupted recording on mount
   useEffect(() => {
     const loadHistory = async () => {
       await db.initDB();
       const items = await db.getAllNotesMeta();
       setHistory(items);
+      const session = await db.getLatestRecordingSession();
+      setRecoverableSession(session ?? null);
+      // Only the latest interrupted recording can be recovered; older ones would
+      // otherwise stay in storage forever.
+      db.deleteStaleRecordingSessions(session?.id, new Date(Date.now() - STALE_RECORDING_SESSION_MS))
+        .catch(err => console.error("Failed to delete stale recording sessions:", err));
+      // Index notes saved before library search existed.
+      syncSearchIndex().catch(err => console.error("Failed to update the search index:", err));
     };
     loadHistory();
   }, []);
+
+  // Check for enough free space whenever the recording setup changes, so the
+  // warning is visible before the user presses Start.
+  useEffect(() => {
+    if (appState !== AppState.IDLE) return;
+    let cancelled = false;
+    checkRecordingCapacity({ noiseReduction: recordMic && noiseReduction, separateTracks: recordMic && recordSystem })
+      .then(warning => { if (!cancelled) setStorageWarning(warning); });
+    return () => { cancelled = true; };
+  }, [appState, recordMic, recordSystem, noiseReduction]);
   
 
-  const generateNotesFromAudio = useCallback(async (audioBase64: string, blob: Blob) => {
+  const generateNotesFromAudio = useCallback(async (
+    blob: Blob,
+    durationSeconds: number,
+    tracks: SourceTracks | null,
+    noteMarkers: Marker[],
+    target: RegenerationTarget | null,
+    notesProvider: NotesProvider = provider,
+  ) => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setGenerationError(null);
+    const template = target?.template ?? selectedTemplate;
+    const { tokens, onUsage } = createTokenCounter();
     try {
-      const audioPart = {
-        inlineData: {
-          mimeType: 'audio/webm',
-          data: audioBase64,
-        },
+      let parsedNotes: Notes;
+      try {
+        parsedNotes = await generateNotes(
+          notesProvider,
+          { blob, durationSeconds, sourceTracks: tracks, markers: noteMarkers, template, outputLanguage, glossary },
+          {
+            onProgress: setGenerationProgress,
+            onPartialNotes: (preview) => setPartialNotes({ notes: preview, template }),
+            onUsage,
+            signal: controller.signal,
+          },
+        );
+      } catch (err) {
+        // Requests that completed before the failure are still billed.
+        const cancelled = controller.signal.aborted || classifyError(err).kind === 'cancelled';
+        recordUsage('notes', notesProvider.model, tokens, cancelled ? 'cancelled' : 'failed', durationSeconds);
+        throw err;
+      }
+      const { kind: _kind, outcome: _outcome, id: _id, ...usage } = recordUsage('notes', notesProvider.model, tokens, 'completed', durationSeconds);
+      const version: db.NoteVersion = {
+        id: `version_${Date.now()}`,
+        createdAt: new Date(),
+        notes: parsedNotes,
+        template,
+        model: notesProvider.label,
+        usage,
       };
 
-      const response = await ai.models.generateContent({
-          model: GEMINI_MODEL_NAME,
-          contents: [{ parts: [audioPart, { text: GEMINI_PROMPT }] }],
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: GEMINI_RESPONSE_SCHEMA,
-          },
-      });
+      if (target) {
+        const record = await db.addNoteVersion(target.noteId, version);
+        showNoteVersion(record, version.id);
+        setRegenerationTarget(null);
+        setAppState(AppState.SUCCESS);
+        setError(null);
+        setHistory(await db.getAllNotesMeta());
+        return;
+      }
 
-      const parsedNotes = JSON.parse(response.text) as Notes;
       setNotes(parsedNotes);
+      setDisplayedTemplate(template);
       setAppState(AppState.SUCCESS);
       setError(null);
       
-      // Save to DB
+      // Save to DB. If the audio doesn't fit in the remaining quota the notes are
+      // saved on their own rather than lost.
       const newRecord: db.NoteRecord = {
         id: `note_${Date.now()}`,
         createdAt: new Date(),
         notes: parsedNotes,
-        audioBlob: blob,
+        // The mix is rebuilt from the tracks when the note is opened, so it isn't stored twice.
+        audioBlob: tracks ? null : blob,
+        ...(tracks ? { sourceTracks: tracks } : {}),
+        ...(noteMarkers.length > 0 ? { markers: noteMarkers } : {}),
+        template,
+        versions: [version],
+        primaryVersionId: version.id,
       };
-      await db.addNote(newRecord);
+      const { audioSaved } = await saveNoteWithFallback(newRecord);
+      setSavedWithoutAudio(!audioSaved);
+      showNoteVersion(newRecord);
+      indexNote(newRecord).catch(err => console.error("Failed to index note:", err));
+      requestPersistentStorage();
+      // The notes are safely stored, so the crash-recovery copy is no longer needed.
+      clearPersistedSession();
       // Refresh history list
       const items = await db.getAllNotesMeta();
       setHistory(items);
 
     } catch (err) {
+      const classified = classifyError(err);
+      // Some SDKs wrap the abort error, so trust the signal over the error type.
+      if (controller.signal.aborted || classified.kind === 'cancelled') {
+        // Go back to the saved note, or to the review screen with the audio intact.
+        setRegenerationTarget(null);
+        setAppState(target ? AppState.SUCCESS : AppState.RECORDING_COMPLETE);
+        return;
+      }
       console.error(err);
-      setError('Failed to generate notes. The AI may have been unable to process the audio. Please try again with a clearer recording.');
+      setGenerationError(classified);
+      setError(classified.message);
       setAppState(AppState.ERROR);
+    } finally {
+      generationAbortRef.current = null;
+      setGenerationProgress(null);
+      setPartialNotes(null);
     }
-  }, []);
+  }, [clearPersistedSession, provider, selectedTemplate, outputLanguage, glossary, recordUsage, showNoteVersion]);
 
   // When recording stops and we have a blob, move to the review screen.
   useEffect(() => {
     if (!isRecording && audioBlob && appState === AppState.RECORDING) {
       setAppState(AppState.RECORDING_COMPLETE);
       setDisplayedAudioBlob(audioBlob);
+      setDisplayedDuration(recordingTime);
+      setDisplayedSourceTracks(sourceTracks);
+      setDisplayedMarkers(markers);
     }
-  }, [isRecording, audioBlob, appState]);
+  }, [isRecording, audioBlob, appState, recordingTime, sourceTracks, markers]);
 
 
   const handleStartRecording = useCallback(async () => {
@@ -111,8 +286,10 @@ export default function App() {
     setError(null);
     setAppState(AppState.REQUESTING_MIC);
     try {
-      await startRecording(recordMic, recordSystem, noiseReduction);
+      await startRecording({ recordMic, recordSystem, noiseReduction, autoPause, micDeviceId });
       setAppState(AppState.RECORDING);
+      // Device labels become available once permission has been granted.
+      refreshDevices();
     } catch (err) {
       console.error("Permission denied or failed to start:", err);
       let message = "An unknown error occurred while trying to start the recording.";
@@ -129,7 +306,66 @@ export default function App() {
       setError(message);
       setAppState(AppState.ERROR);
     }
-  }, [startRecording, noiseReduction, recordMic, recordSystem]);
+  }, [startRecording, noiseReduction, recordMic, recordSystem, autoPause, micDeviceId, refreshDevices]);
+
+  const handleSwitchMicDevice = useCallback((deviceId: string | null) => {
+    selectMicDevice(deviceId);
+    switchMicDevice(deviceId);
+  }, [selectMicDevice, switchMicDevice]);
+
+  const handleImportFile = useCallback(async (file: File) => {
+    const validationError = validateAudioFile(file);
+    if (validationError) {
+      setError(validationError);
+      setAppState(AppState.ERROR);
+      return;
+    }
+    // Re-wrap the file so the blob carries the MIME type the model expects,
+    // regardless of what the browser reported for it.
+    const mimeType = resolveAudioMimeType(file)!;
+    const blob = new Blob([file], { type: mimeType });
+    const duration = await getAudioDuration(blob);
+
+    setError(null);
+    setImportedFileName(file.name);
+    setDisplayedAudioBlob(blob);
+    setDisplayedDuration(duration);
+    setDisplayedSourceTracks(null);
+    setDisplayedMarkers([]);
+    setAppState(AppState.RECORDING_COMPLETE);
+  }, []);
+
+  const handleRecoverSession = useCallback(async () => {
+    if (!recoverableSession) return;
+    setIsRecoveringSession(true);
+    try {
+      const recovered = await recoverSession(recoverableSession);
+      setError(null);
+      setDisplayedAudioBlob(recovered.audioBlob);
+      setDisplayedSourceTracks(recovered.sourceTracks);
+      setDisplayedMarkers(recovered.markers);
+      setDisplayedDuration(recoverableSession.durationSeconds);
+      setRecoverableSession(null);
+      setAppState(AppState.RECORDING_COMPLETE);
+    } catch (err) {
+      console.error("Failed to recover recording session:", err);
+      setError("The interrupted recording could not be recovered.");
+      setAppState(AppState.ERROR);
+    } finally {
+      setIsRecoveringSession(false);
+    }
+  }, [recoverableSession, recoverSession]);
+
+  const handleDiscardRecoverableSession = useCallback(async () => {
+    if (!recoverableSession) return;
+    if (!window.confirm('Discard the interrupted recording? This cannot be undone.')) return;
+    try {
+      await db.deleteRecordingSession(recoverableSession.id);
+    } catch (err) {
+      console.error("Failed to discard recording session:", err);
+    }
+    setRecoverableSession(null);
+  }, [recoverableSession]);
 
   const handleStopRecording = useCallback(() => {
     stopRecording();
@@ -140,19 +376,131 @@ export default function App() {
     togglePause();
   }, [togglePause]);
 
+  // Cuts long silences from the displayed recording, keeping its tracks and
+  // markers aligned with it, and returns the trimmed recording.
+  const trimDisplayedAudio = useCallback(async (): Promise<DisplayedAudio> => {
+    const result = await trimSilence(displayedAudioBlob!);
+    let tracks = displayedSourceTracks;
+    if (tracks) {
+      // Cut the same ranges from each track so they stay aligned with the mix.
+      const [mic, system] = await Promise.all([
+        removeRanges(tracks.mic, result.removedRanges),
+        removeRanges(tracks.system, result.removedRanges),
+      ]);
+      tracks = { mic, system };
+    }
+    // Keep markers pointing at the same moments in the shortened audio.
+    const trimmedMarkers = displayedMarkers.map(marker => ({ ...marker, timeSeconds: remapTime(marker.timeSeconds, result.removedRanges) }));
+    setDisplayedAudioBlob(result.blob);
+    setDisplayedDuration(result.durationSeconds);
+    setDisplayedSourceTracks(tracks);
+    setDisplayedMarkers(trimmedMarkers);
+    setTrimmedSeconds((prev) => (prev ?? 0) + result.removedSeconds);
+    return { blob: result.blob, durationSeconds: result.durationSeconds, tracks, markers: trimmedMarkers };
+  }, [displayedAudioBlob, displayedSourceTracks, displayedMarkers]);
+
+  const handleTrimSilence = useCallback(async () => {
+    if (!displayedAudioBlob || isTrimmingSilence) return;
+    setIsTrimmingSilence(true);
+    try {
+      await trimDisplayedAudio();
+    } catch (err) {
+      console.error("Failed to trim silence:", err);
+      alert("Sorry, the silence could not be removed from this recording.");
+    } finally {
+      setIsTrimmingSilence(false);
+    }
+  }, [displayedAudioBlob, isTrimmingSilence, trimDisplayedAudio]);
+
+  // Warns before generating notes that would exceed the monthly budget.
+  const budgetWarningFor = useCallback((durationSeconds: number) => checkBudget(
+    usageLedger,
+    usageSettings,
+    estimateRecordingCost(durationSeconds, provider.model, usageSettings.prices),
+  ), [usageLedger, usageSettings, provider]);
+
   const handleGenerateNotes = useCallback(async () => {
     if (!displayedAudioBlob) return;
     setAppState(AppState.PROCESSING);
+    let audio: DisplayedAudio = { blob: displayedAudioBlob, durationSeconds: displayedDuration, tracks: displayedSourceTracks, markers: displayedMarkers };
+    // Recordings already trimmed by hand aren't trimmed again.
+    if (autoTrimSilence && trimmedSeconds === null && displayedDuration <= AUTO_TRIM_MAX_SECONDS) {
+      setGenerationProgress({ label: 'Removing long silences...', completed: 0, total: 1 });
+      try {
+        audio = await trimDisplayedAudio();
+      } catch (err) {
+        // The notes can still be generated from the untrimmed recording.
+        console.error("Failed to trim silence:", err);
+      }
+    }
+    await generateNotesFromAudio(audio.blob, audio.durationSeconds, audio.tracks, audio.markers, regenerationTarget);
+  }, [displayedAudioBlob, displayedDuration, displayedSourceTracks, displayedMarkers, autoTrimSilence, trimmedSeconds, trimDisplayedAudio, regenerationTarget, generateNotesFromAudio]);
+
+  const handleRegenerate = useCallback(async (template: NoteTemplate) => {
+    if (!viewingHistoryId || !displayedAudioBlob) return;
+    const duration = await getAudioDuration(displayedAudioBlob);
+    const budgetWarning = budgetWarningFor(duration);
+    if (budgetWarning && !window.confirm(`${budgetWarning} Regenerate anyway?`)) return;
+    const target = { noteId: viewingHistoryId, template };
+    setRegenerationTarget(target);
+    setAppState(AppState.PROCESSING);
+    setDisplayedDuration(duration);
+    await generateNotesFromAudio(displayedAudioBlob, duration, displayedSourceTracks, displayedMarkers, target);
+  }, [viewingHistoryId, displayedAudioBlob, displayedSourceTracks, displayedMarkers, generateNotesFromAudio, budgetWarningFor]);
+
+  const handleSelectVersion = useCallback((versionId: string) => {
+    const version = displayedVersions.find(v => v.id === versionId);
+    if (!version) return;
+    setNotes(version.notes);
+    setDisplayedTemplate(version.template);
+    setActiveVersionId(version.id);
+  }, [displayedVersions]);
+
+  const handleTranslate = useCallback(async (code: string) => {
+    if (!notes || !displayedNoteId || !activeVersionId) return;
+    const { tokens, onUsage } = createTokenCounter();
+    let translated: Notes;
     try {
-      const audioBase64 = await blobToBase64(displayedAudioBlob);
-      await generateNotesFromAudio(audioBase64, displayedAudioBlob);
+      translated = await translateNotes(provider, notes, displayedTemplate, code, undefined, onUsage);
     } catch (err) {
-      console.error("Error during note generation pipeline", err);
-      setError('An internal error occurred while preparing the audio file.');
-      setAppState(AppState.ERROR);
+      recordUsage('translation', provider.model, tokens, 'failed');
+      throw err;
     }
-  }, [displayedAudioBlob, generateNotesFromAudio]);
+    recordUsage('translation', provider.model, tokens, 'completed');
+    const record = await db.addNoteTranslation(displayedNoteId, activeVersionId, { language: code, notes: translated, createdAt: new Date() });
+    setDisplayedVersions(db.noteVersions(record));
+  }, [notes, displayedNoteId, activeVersionId, displayedTemplate, provider, recordUsage]);
 
+  const handleMakePrimary = useCallback(async (versionId: string) => {
+    if (!viewingHistoryId) return;
+    try {
+      const record = await db.setPrimaryNoteVersion(viewingHistoryId, versionId);
+      showNoteVersion(record, versionId);
+      setHistory(await db.getAllNotesMeta());
+      indexNote(record).catch(err => console.error("Failed to index note:", err));
+    } catch (err) {
+      console.error("Failed to set primary version:", err);
+      alert("Sorry, the primary version could not be changed.");
+    }
+  }, [viewingHistoryId, showNoteVersion]);
+
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  const handleRetryWithModel = useCallback(async (settings: ProviderSettings) => {
+    if (!displayedAudioBlob) return;
+    updateProviderSettings(settings);
+    setAppState(AppState.PROCESSING);
+    await generateNotesFromAudio(displayedAudioBlob, displayedDuration, displayedSourceTracks, displayedMarkers, regenerationTarget, createProvider(settings));
+  }, [displayedAudioBlob, displayedDuration, displayedSourceTracks, displayedMarkers, regenerationTarget, generateNotesFromAudio, updateProviderSettings]);
+
+  const handleSaveAudioForLater = useCallback(() => {
+    if (!displayedAudioBlob) return;
+    const title = importedFileName?.replace(/\.[^.]+$/, '') || 'recording';
+    triggerDownload(displayedAudioBlob, generateFilename(title, extensionForMimeType(displayedAudioBlob.type)));
+  }, [displayedAudioBlob, importedFileName]);
 
   const handleReset = useCallback(() => {
     setAppState(AppState.IDLE);
@@ -161,6 +509,20 @@ export default function App() {
     resetRecorder();
     setViewingHistoryId(null);
     setDisplayedAudioBlob(null);
+    setDisplayedDuration(0);
+    setDisplayedSourceTracks(null);
+    setDisplayedMarkers([]);
+    setDisplayedTemplate(undefined);
+    setDisplayedVersions([]);
+    setActiveVersionId(null);
+    setPrimaryVersionId(null);
+    setRegenerationTarget(null);
+    setDisplayedNoteId(null);
+    setDisplayedChat([]);
+    setImportedFileName(null);
+    setTrimmedSeconds(null);
+    setSavedWithoutAudio(false);
+    setGenerationError(null);
   }, [resetRecorder]);
 
   const handleShowHistory = useCallback(async () => {
@@ -170,11 +532,23 @@ export default function App() {
     setError(null);
     setViewingHistoryId(null);
     setDisplayedAudioBlob(null);
+    setDisplayedSourceTracks(null);
+    setDisplayedMarkers([]);
+    setDisplayedTemplate(undefined);
+    setDisplayedVersions([]);
+    setActiveVersionId(null);
+    setPrimaryVersionId(null);
+    setRegenerationTarget(null);
+    setDisplayedNoteId(null);
+    setDisplayedChat([]);
+    setImportedFileName(null);
+    setSavedWithoutAudio(false);
 
     // Then, fetch the latest data to ensure the history view is always fresh.
     try {
       const items = await db.getAllNotesMeta();
       setHistory(items);
+      setStorageStatus(await getStorageStatus());
     } catch (e) {
       console.error("Failed to load history:", e);
       setError("Could not load history from the database.");
@@ -184,12 +558,22 @@ export default function App() {
   const handleViewHistoryItem = useCallback(async (id: string) => {
     const record = await db.getNote(id);
     if (record) {
-      setNotes(record.notes);
-      setDisplayedAudioBlob(record.audioBlob);
+      // Notes with source tracks store no mix, so it is rebuilt for playback.
+      let audioBlob = record.audioBlob;
+      if (!audioBlob && record.sourceTracks) {
+        audioBlob = await mixTracks(record.sourceTracks).catch(err => {
+          console.error("Failed to mix the source tracks:", err);
+          return null;
+        });
+      }
+      showNoteVersion(record);
+      setDisplayedAudioBlob(audioBlob);
+      setDisplayedSourceTracks(record.sourceTracks ?? null);
+      setDisplayedMarkers(record.markers ?? []);
       setViewingHistoryId(id);
       setAppState(AppState.SUCCESS);
     }
-  }, []);
+  }, [showNoteVersion]);
 
   const handleDeleteHistoryItem = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this note permanently?')) {
@@ -199,6 +583,7 @@ export default function App() {
   
         // 2. Once confirmed, update the local state. This is more reliable than a re-fetch.
         setHistory(prevHistory => prevHistory.filter(item => item.id !== id));
+        setStorageStatus(await getStorageStatus());
       } catch (e) {
         console.error("Failed to delete note from database:", e);
         alert("There was an error deleting the note. Please try again.");
@@ -207,95 +592,189 @@ export default function App() {
   };
 
 
+  const handleRequestPersistentStorage = useCallback(async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) {
+      alert("Your browser declined to make storage persistent. Notes may be removed if the device runs low on space.");
+    }
+    setStorageStatus(await getStorageStatus());
+  }, []);
+
+  const handleShowSettings = useCallback(() => {
+    setAppState(AppState.SETTINGS);
+  }, []);
+
   const renderContent = () => {
     switch (appState) {
       case AppState.IDLE:
       case AppState.REQUESTING_MIC:
         return (
-          <WelcomeScreen 
-            onStartRecording={handleStartRecording}
-            isRequesting={appState === AppState.REQUESTING_MIC}
-            noiseReduction={noiseReduction}
-            onNoiseReductionChange={setNoiseReduction}
-            recordMic={recordMic}
-            onRecordMicChange={setRecordMic}
-            recordSystem={recordSystem}
-            onRecordSystemChange={setRecordSystem}
-          />
+          <div className="w-full flex flex-col items-center">
+            {recoverableSession && (
+              <RecoveryPrompt
+                session={recoverableSession}
+                isRecovering={isRecoveringSession}
+                onRecover={handleRecoverSession}
+                onDiscard={handleDiscardRecoverableSession}
+              />
+            )}
+            <WelcomeScreen 
+              onStartRecording={handleStartRecording}
+              isRequesting={appState === AppState.REQUESTING_MIC}
+              noiseReduction={noiseReduction}
+              onNoiseReductionChange={setNoiseReduction}
+              recordMic={recordMic}
+              onRecordMicChange={setRecordMic}
+              micDevices={micDevices}
+              micDeviceId={micDeviceId}
+              onMicDeviceChange={selectMicDevice}
+              recordSystem={recordSystem}
+              onRecordSystemChange={setRecordSystem}
+              autoPause={autoPause}
+              onAutoPauseChange={setAutoPause}
+              autoTrimSilence={autoTrimSilence}
+              onAutoTrimSilenceChange={updateAutoTrimSilence}
+              onImportFile={handleImportFile}
+              storageWarning={storageWarning}
+              templates={templates}
+              selectedTemplate={selectedTemplate}
+              onTemplateChange={selectTemplate}
+            />
+          </div>
         );
       case AppState.RECORDING:
         return (
-          <div className="flex flex-col items-center justify-center text-center">
-            <p className="text-xl mb-4 text-gray-400 h-7">
-              {isPaused ? 'Recording Paused' : 'Recording in progress...'}
-            </p>
-            <div className="font-mono text-6xl text-cyan-400 mb-6 tracking-wider">
-              {new Date(recordingTime * 1000).toISOString().slice(14, 19)}
-            </div>
-            <div className="flex flex-col items-center gap-4">
-              <RecordButton isRecording={true} onClick={handleStopRecording} />
-              <button
-                onClick={handlePauseResumeClick}
-                className="flex items-center gap-2 px-5 py-2.5 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 focus:ring-offset-gray-800"
-                aria-label={isPaused ? 'Resume recording' : 'Pause recording'}
-              >
-                {isPaused ? <PlayIcon className="w-5 h-5" /> : <PauseIcon className="w-5 h-5" />}
-                <span>{isPaused ? 'Resume' : 'Pause'}</span>
-              </button>
-            </div>
-          </div>
+          <RecordingScreen
+            isPaused={isPaused}
+            isAutoPaused={isAutoPaused}
+            recordingTime={recordingTime}
+            analysers={analysers}
+            silenceWarningSeconds={silenceWarningSeconds}
+            onSilenceWarningSecondsChange={setSilenceWarningSeconds}
+            micDevices={micDevices}
+            activeMicDeviceId={activeMicDeviceId}
+            lastMicSwitch={lastMicSwitch}
+            onMicDeviceChange={handleSwitchMicDevice}
+            markers={markers}
+            onAddMarker={addMarker}
+            onStop={handleStopRecording}
+            onTogglePause={handlePauseResumeClick}
+          />
         );
       case AppState.RECORDING_COMPLETE:
         return (
-          <div className="text-center flex flex-col items-center animate-fade-in">
-            <h2 className="text-2xl font-semibold text-gray-100 mb-2">Recording Finished</h2>
-            <p className="text-gray-400 mb-4">
-              Your recording is <span className="font-semibold text-cyan-400">{new Date(recordingTime * 1000).toISOString().slice(14, 19)}</span> long.
-            </p>
-            <p className="text-gray-400 mb-8 max-w-md">
-              Ready to generate your notes? You can also discard this recording and start over.
-            </p>
-            <div className="flex flex-col sm:flex-row items-center gap-4">
-              <button
-                onClick={handleGenerateNotes}
-                className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg transition-colors duration-200 shadow-lg text-lg focus:outline-none focus:ring-4 focus:ring-blue-400 focus:ring-opacity-50"
-              >
-                <SparklesIcon className="w-6 h-6" />
-                Generate Notes
-              </button>
-              <button
-                onClick={handleReset}
-                className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200"
-                aria-label="Discard recording and start over"
-              >
-                <TrashIcon className="w-5 h-5" />
-                Discard
-              </button>
-            </div>
-          </div>
+          <ReviewScreen
+            importedFileName={importedFileName}
+            durationSeconds={displayedDuration}
+            isTrimmingSilence={isTrimmingSilence}
+            trimmedSeconds={trimmedSeconds}
+            willTrimSilence={autoTrimSilence && displayedDuration <= AUTO_TRIM_MAX_SECONDS}
+            markers={displayedMarkers}
+            onTrimSilence={handleTrimSilence}
+            onGenerate={handleGenerateNotes}
+            onDiscard={handleReset}
+            budgetWarning={budgetWarningFor(displayedDuration)}
+          />
         );
       case AppState.PROCESSING:
-        return <Loader message="Analyzing your audio and generating notes..." />;
+        return partialNotes ? (
+          <NotesDisplay
+            notes={partialNotes.notes}
+            template={partialNotes.template}
+            onNewNote={handleReset}
+            audioBlob={displayedAudioBlob}
+            sourceTracks={displayedSourceTracks}
+            markers={displayedMarkers}
+            streaming={{ label: generationProgress?.label || 'Writing notes...', onCancel: handleCancelGeneration }}
+          />
+        ) : (
+          <Loader message={generationProgress?.label ?? "Analyzing your audio and generating notes..."} progress={generationProgress} onCancel={handleCancelGeneration} />
+        );
       case AppState.SUCCESS:
-        return notes ? <NotesDisplay notes={notes} onNewNote={handleReset} onBackToHistory={viewingHistoryId ? handleShowHistory : undefined} audioBlob={displayedAudioBlob} /> : null;
+        return notes ? (
+          <NotesDisplay
+            notes={notes}
+            template={displayedTemplate}
+            onNewNote={handleReset}
+            onBackToHistory={viewingHistoryId ? handleShowHistory : undefined}
+            audioBlob={displayedAudioBlob}
+            sourceTracks={displayedSourceTracks}
+            markers={displayedMarkers}
+            audioNotSaved={savedWithoutAudio}
+            chat={displayedNoteId ? { noteId: displayedNoteId, messages: displayedChat, provider, recordUsage, onMessagesChange: setDisplayedChat } : undefined}
+            translations={displayedVersions.find(version => version.id === activeVersionId)?.translations}
+            onTranslate={displayedNoteId ? handleTranslate : undefined}
+            onAddToGlossary={addGlossaryEntry}
+            usage={displayedVersions.find(version => version.id === activeVersionId)?.usage}
+            versionControls={viewingHistoryId && activeVersionId && primaryVersionId ? (
+              <VersionBar
+                versions={displayedVersions}
+                activeVersionId={activeVersionId}
+                primaryVersionId={primaryVersionId}
+                onSelectVersion={handleSelectVersion}
+                onMakePrimary={handleMakePrimary}
+                templates={templates}
+                defaultTemplate={findTemplate(templates, displayedTemplate?.id)}
+                onRegenerate={displayedAudioBlob ? handleRegenerate : undefined}
+                modelLabel={provider.label}
+              />
+            ) : undefined}
+          />
+        ) : null;
       case AppState.ERROR:
-        return <ErrorDisplay message={error} onReset={handleReset} />;
+        return generationError && displayedAudioBlob ? (
+          <ErrorDisplay
+            title={GENERATION_ERROR_DETAILS[generationError.kind].title}
+            message={generationError.message}
+            actions={GENERATION_ERROR_DETAILS[generationError.kind].actions}
+            providerSettings={providerSettings}
+            onRetry={handleGenerateNotes}
+            onChangeModel={handleRetryWithModel}
+            onSaveAudio={handleSaveAudioForLater}
+            onReset={handleReset}
+          />
+        ) : (
+          <ErrorDisplay message={error} onReset={handleReset} />
+        );
       case AppState.HISTORY:
-        return <HistoryScreen history={history} onView={handleViewHistoryItem} onDelete={handleDeleteHistoryItem} onBack={handleReset} />;
+        return <HistoryScreen history={history} storageStatus={storageStatus} onRequestPersistentStorage={handleRequestPersistentStorage} provider={provider} recordUsage={recordUsage} usages={usageLedger} monthlyBudgetUsd={usageSettings.monthlyBudgetUsd} onView={handleViewHistoryItem} onDelete={handleDeleteHistoryItem} onBack={handleReset} />;
+      case AppState.SETTINGS:
+        return (
+          <SettingsScreen
+            providerSettings={providerSettings}
+            onProviderSettingsChange={updateProviderSettings}
+            outputLanguage={outputLanguage}
+            onOutputLanguageChange={selectOutputLanguage}
+            glossary={glossary}
+            onGlossaryChange={updateGlossary}
+            usageSettings={usageSettings}
+            onUsageSettingsChange={updateUsageSettings}
+            customTemplates={customTemplates}
+            onSaveTemplate={saveTemplate}
+            onDeleteTemplate={deleteTemplate}
+            onBack={handleReset}
+          />
+        );
       default:
         return null;
     }
   };
 
   const isHistoryView = appState === AppState.HISTORY || (appState === AppState.SUCCESS && viewingHistoryId !== null);
-  const navAction = isHistoryView ? handleReset : handleShowHistory;
-  const navLabel = isHistoryView ? 'New Note' : 'History';
-  const NavIcon = isHistoryView ? RetryIcon : HistoryIcon;
+  const showNewNoteNav = isHistoryView || appState === AppState.SETTINGS;
+  const navAction = showNewNoteNav ? handleReset : handleShowHistory;
+  const navLabel = showNewNoteNav ? 'New Note' : 'History';
+  const NavIcon = showNewNoteNav ? RetryIcon : HistoryIcon;
 
   return (
     <main className="min-h-screen w-full flex flex-col items-center justify-center p-4 sm:p-6 lg:p-8 bg-gray-900">
       <div className="w-full max-w-4xl mx-auto flex flex-col items-center">
-        <Header onNavClick={navAction} navLabel={navLabel} NavIcon={NavIcon} />
+        <Header
+          onNavClick={navAction}
+          navLabel={navLabel}
+          NavIcon={NavIcon}
+          onSettingsClick={appState === AppState.IDLE || appState === AppState.HISTORY ? handleShowSettings : undefined}
+        />
         <div className="w-full mt-8 bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl shadow-2xl shadow-black/20 p-6 md:p-10 min-h-[400px] flex items-center justify-center">
           {renderContent()}
         </div>
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { GlossaryEntry } from '../utils/glossary';
+import { PlusIcon } from './icons';
+
+interface AddToGlossaryProps {
+  onAdd: (entry: GlossaryEntry) => void;
+}
+
+type EntryKind = GlossaryEntry['kind'];
+
+const KIND_LABELS: Record<EntryKind, string> = { person: 'Person', term: 'Term', correction: 'Correction' };
+
+const FIELD_PLACEHOLDERS: Record<EntryKind, [string, string]> = {
+  person: ['Full name', 'Role (optional)'],
+  term: ['Term', 'What it means (optional)'],
+  correction: ['Misspelling', 'Correct spelling'],
+};
+
+const inputClassName = "flex-1 min-w-0 bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const toEntry = (kind: EntryKind, first: string, second: string): GlossaryEntry => {
+  switch (kind) {
+    case 'person':
+      return { kind, value: { name: first, ...(second ? { role: second } : {}) } };
+    case 'term':
+      return { kind, value: { term: first, ...(second ? { description: second } : {}) } };
+    case 'correction':
+      return { kind, value: { from: first, to: second } };
+  }
+};
+
+// Adds a name, term or correction spotted in a note to the glossary used for
+// future generations. Text selected in the notes prefills the first field.
+export const AddToGlossary: React.FC<AddToGlossaryProps> = ({ onAdd }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<EntryKind>('correction');
+  const [first, setFirst] = useState('');
+  const [second, setSecond] = useState('');
+  const [added, setAdded] = useState<string | null>(null);
+
+  const trimmedFirst = first.trim();
+  const trimmedSecond = second.trim();
+  const canAdd = trimmedFirst !== '' && (kind !== 'correction' || trimmedSecond !== '');
+
+  // Read the selection on mouse down, before the click moves focus and clears it.
+  const handleOpen = () => {
+    setFirst(window.getSelection()?.toString().trim() ?? '');
+    setSecond('');
+    setAdded(null);
+    setIsOpen(true);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd(toEntry(kind, trimmedFirst, trimmedSecond));
+    setAdded(trimmedFirst);
+    setFirst('');
+    setSecond('');
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="notes-controls mb-6">
+        <button
+          onMouseDown={handleOpen}
+          className="flex items-center gap-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300"
+          title="Select a word in the notes first to fill it in"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add to Glossary
+        </button>
+      </div>
+    );
+  }
+
+  const [firstPlaceholder, secondPlaceholder] = FIELD_PLACEHOLDERS[kind];
+  return (
+    <div className="notes-controls mb-6 p-3 rounded-lg border border-gray-700 bg-gray-800/60">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as EntryKind)}
+          className="bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Glossary entry type"
+        >
+          {(Object.keys(KIND_LABELS) as EntryKind[]).map(k => (
+            <option key={k} value={k}>{KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={first}
+          onChange={(e) => setFirst(e.target.value)}
+          placeholder={firstPlaceholder}
+          aria-label={firstPlaceholder}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={second}
+          onChange={(e) => setSecond(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={secondPlaceholder}
+          aria-label={secondPlaceholder}
+          className={inputClassName}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Add
+        </button>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm"
+        >
+          Close
+        </button>
+      </div>
+      {added && <p className="mt-2 text-sm text-green-400">Added "{added}". It will be used for new and regenerated notes.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import type { AudioActivity, ConversationAnalytics, Sentiment, SpeakerStats, TopicSentiment } from '../types';
+import { formatDuration } from '../utils/conversationAnalytics';
+
+const SPEAKER_COLORS = ['bg-cyan-500', 'bg-purple-500', 'bg-amber-500', 'bg-emerald-500', 'bg-pink-500', 'bg-blue-500'];
+
+const SENTIMENT_COLORS: Record<Sentiment, string> = {
+  positive: 'bg-emerald-500',
+  neutral: 'bg-gray-400',
+  negative: 'bg-red-500',
+  mixed: 'bg-amber-500',
+};
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const ChartTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide text-gray-400">{children}</h4>
+);
+
+const TalkTimeChart: React.FC<{ speakers: SpeakerStats[] }> = ({ speakers }) => {
+  const total = speakers.reduce((sum, speaker) => sum + speaker.talkSeconds, 0);
+  return (
+    <div>
+      <ChartTitle>Talk time</ChartTitle>
+      <div className="flex h-3 w-full bg-gray-700 rounded-full overflow-hidden">
+        {speakers.map((speaker, i) => (
+          <div
+            key={speaker.speaker}
+            className={SPEAKER_COLORS[i % SPEAKER_COLORS.length]}
+            style={{ width: `${percent(speaker.talkSeconds, total)}%` }}
+            title={speaker.speaker}
+          />
+        ))}
+      </div>
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-300">
+        {speakers.map((speaker, i) => (
+          <li key={speaker.speaker} className="flex items-center gap-2">
+            <span className={`w-3 h-3 rounded-sm ${SPEAKER_COLORS[i % SPEAKER_COLORS.length]}`} />
+            {speaker.speaker}: {formatDuration(speaker.talkSeconds)} ({percent(speaker.talkSeconds, total)}%)
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const SpeakerTable: React.FC<{ speakers: SpeakerStats[] }> = ({ speakers }) => (
+  <table className="w-full text-left text-sm">
+    <thead>
+      <tr className="text-xs text-gray-400 border-b border-gray-700">
+        <th className="py-1 font-medium">Speaker</th>
+        <th className="py-1 font-medium text-right">Turns</th>
+        <th className="py-1 font-medium text-right">Longest monologue</th>
+        <th className="py-1 font-medium text-right">Questions</th>
+        <th className="py-1 font-medium text-right">Interruptions</th>
+      </tr>
+    </thead>
+    <tbody>
+      {speakers.map(speaker => (
+        <tr key={speaker.speaker} className="text-gray-300 border-b border-gray-700/50">
+          <td className="py-1">{speaker.speaker}</td>
+          <td className="py-1 text-right">{speaker.turns}</td>
+          <td className="py-1 text-right">{formatDuration(speaker.longestMonologueSeconds)}</td>
+          <td className="py-1 text-right">{speaker.questions}</td>
+          <td className="py-1 text-right">{speaker.interruptions}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Bars grow left from the centre line for negative scores and right for positive ones.
+const SentimentChart: React.FC<{ topics: TopicSentiment[] }> = ({ topics }) => (
+  <div>
+    <ChartTitle>Sentiment by topic</ChartTitle>
+    <ul className="space-y-2">
+      {topics.map(topic => (
+        <li key={topic.topic} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] items-center gap-3 text-sm">
+          <span className="text-gray-300 truncate" title={topic.topic}>{topic.topic}</span>
+          <span className="flex items-center gap-2">
+            <span className="relative flex-1 h-3 bg-gray-700 rounded-full overflow-hidden">
+              <span className="absolute inset-y-0 left-1/2 w-px bg-gray-500" />
+              <span
+                className={`absolute inset-y-0 ${SENTIMENT_COLORS[topic.sentiment]}`}
+                style={topic.score < 0
+                  ? { right: '50%', width: `${Math.abs(topic.score) * 50}%` }
+                  : { left: '50%', width: `${topic.score * 50}%` }}
+              />
+            </span>
+            <span className="w-16 text-xs text-gray-400">{capitalize(topic.sentiment)}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const AudioActivityChart: React.FC<{ audio: AudioActivity }> = ({ audio }) => (
+  <div>
+    <ChartTitle>Speech and silence</ChartTitle>
+    <div className="flex h-3 w-full bg-gray-700 rounded-full overflow-hidden">
+      <div className="bg-cyan-500" style={{ width: `${percent(audio.speechSeconds, audio.durationSeconds)}%` }} />
+    </div>
+    <p className="mt-2 text-sm text-gray-300">
+      Speech {formatDuration(audio.speechSeconds)} of {formatDuration(audio.durationSeconds)} ({percent(audio.speechSeconds, audio.durationSeconds)}%),
+      silence {formatDuration(audio.durationSeconds - audio.speechSeconds)}.
+    </p>
+    {audio.tracks && (
+      <ul className="mt-2 space-y-1 text-sm text-gray-300">
+        {audio.tracks.map(track => (
+          <li key={track.label}>
+            {capitalize(track.label)}: {formatDuration(track.speechSeconds)} of speech
+          </li>
+        ))}
+        {audio.overlapSeconds !== undefined && (
+          <li>Both talking at once: {formatDuration(audio.overlapSeconds)}</li>
+        )}
+      </ul>
+    )}
+  </div>
+);
+
+// Charts of who talked how much, how the conversation went back and forth, and
+// the tone of each topic.
+export const AnalyticsView: React.FC<{ analytics: ConversationAnalytics }> = ({ analytics }) => (
+  <div className="space-y-6">
+    {analytics.speakers.length > 0 && (
+      <>
+        <TalkTimeChart speakers={analytics.speakers} />
+        <SpeakerTable speakers={analytics.speakers} />
+      </>
+    )}
+    {analytics.topicSentiment.length > 0 && <SentimentChart topics={analytics.topicSentiment} />}
+    {analytics.audio && <AudioActivityChart audio={analytics.audio} />}
+  </div>
+);
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SourceTracks } from '../types';
+import { convertAudio, isOpusEncodingSupported, ConvertOptions, AUDIO_FORMAT_EXTENSIONS } from '../utils/audioConverter';
+import { extensionForMimeType, generateFilename, triggerDownload } from '../utils/fileUtils';
+import { SoundWaveIcon } from './icons';
+
+interface DownloadOption {
+  id: string;
+  label: string;
+  description: string;
+  // Omitted for downloads of a stored blob as-is.
+  conversion?: ConvertOptions;
+  source: 'mix' | 'mic' | 'system';
+}
+
+const CONVERSION_OPTIONS: DownloadOption[] = [
+  { id: 'wav', label: 'WAV', description: 'Uncompressed, 48 kHz', conversion: { format: 'wav' }, source: 'mix' },
+  { id: 'wav-speech', label: 'WAV (speech)', description: '16 kHz mono, smaller', conversion: { format: 'wav', sampleRate: 16000, mono: true }, source: 'mix' },
+  { id: 'opus', label: 'Opus', description: 'Ogg, mono, smallest', conversion: { format: 'opus', mono: true, bitrate: 48000 }, source: 'mix' },
+];
+
+interface AudioDownloadMenuProps {
+  title: string;
+  audioBlob: Blob;
+  sourceTracks?: SourceTracks | null;
+}
+
+export const AudioDownloadMenu: React.FC<AudioDownloadMenuProps> = ({ title, audioBlob, sourceTracks }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+  const [opusSupported, setOpusSupported] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    isOpusEncodingSupported().then(setOpusSupported);
+  }, []);
+
+  // Close the menu when clicking anywhere outside it.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const originalExtension = extensionForMimeType(audioBlob.type);
+  const options: DownloadOption[] = [
+    { id: 'original', label: originalExtension.toUpperCase(), description: 'As recorded', source: 'mix' },
+    ...CONVERSION_OPTIONS.filter(option => option.conversion?.format !== 'opus' || opusSupported),
+    ...(sourceTracks ? [
+      { id: 'mic', label: 'Microphone track', description: 'Your voice only', source: 'mic' as const },
+      { id: 'system', label: 'Screen audio track', description: 'Remote participants only', source: 'system' as const },
+    ] : []),
+  ];
+
+  const handleDownload = async (option: DownloadOption) => {
+    const sourceBlob = option.source === 'mix' ? audioBlob : sourceTracks?.[option.source];
+    if (!sourceBlob) return;
+    setConvertingId(option.id);
+    try {
+      const suffix = option.source === 'mix' ? '' : `_${option.source}`;
+      if (option.conversion) {
+        const converted = await convertAudio(sourceBlob, option.conversion);
+        triggerDownload(converted, generateFilename(`${title}${suffix}`, AUDIO_FORMAT_EXTENSIONS[option.conversion.format]));
+      } else {
+        triggerDownload(sourceBlob, generateFilename(`${title}${suffix}`, extensionForMimeType(sourceBlob.type)));
+      }
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Failed to prepare audio for download:", error);
+      alert("Sorry, there was an error downloading the audio file.");
+    } finally {
+      setConvertingId(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center justify-center gap-2 px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md text-sm"
+        aria-label="Download recorded audio"
+        aria-expanded={isOpen}
+      >
+        <SoundWaveIcon className="w-4 h-4" />
+        {convertingId ? 'Converting...' : 'Audio'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-10 py-1">
+          {options.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleDownload(option)}
+              disabled={convertingId !== null}
+              className="w-full text-left px-4 py-2 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-wait"
+            >
+              <span className="block text-sm font-semibold text-gray-100">{option.label}</span>
+              <span className="block text-xs text-gray-400">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
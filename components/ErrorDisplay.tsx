@@ -1,27 +1,98 @@
-
-import React from 'react';
-import { WarningIcon, RetryIcon } from './icons';
+import React, { useState } from 'react';
+import type { ProviderSettings } from '../types';
+import type { GenerationErrorAction } from '../utils/generationErrors';
+import { listAlternativeModels } from '../utils/providers';
+import { WarningIcon, RetryIcon, DownloadIcon, SparklesIcon } from './icons';
 
 interface ErrorDisplayProps {
   message: string | null;
+  title?: string;
+  // Extra follow-ups for failed generations; the reset button is always shown.
+  actions?: GenerationErrorAction[];
+  providerSettings?: ProviderSettings;
+  onRetry?: () => void;
+  onChangeModel?: (settings: ProviderSettings) => void;
+  onSaveAudio?: () => void;
   onReset: () => void;
 }
 
-export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ message, onReset }) => {
+export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
+  message,
+  title = 'An Error Occurred',
+  actions = [],
+  providerSettings,
+  onRetry,
+  onChangeModel,
+  onSaveAudio,
+  onReset,
+}) => {
+  const alternatives = providerSettings ? listAlternativeModels(providerSettings) : [];
+  const [selectedModel, setSelectedModel] = useState(alternatives[0]?.key ?? '');
+  const canRetry = actions.includes('retry') && onRetry;
+  const canChangeModel = actions.includes('changeModel') && onChangeModel && alternatives.length > 0;
+  const canSaveAudio = actions.includes('saveAudio') && onSaveAudio;
+
   return (
     <div className="text-center flex flex-col items-center p-4">
       <WarningIcon className="w-16 h-16 text-red-500 mb-4" />
-      <h2 className="text-2xl font-bold text-red-400 mb-2">An Error Occurred</h2>
+      <h2 className="text-2xl font-bold text-red-400 mb-2">{title}</h2>
       <p className="text-gray-300 max-w-md mb-8">
         {message || 'Something went wrong. Please try again.'}
       </p>
-      <button
-        onClick={onReset}
-        className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md"
-      >
-        <RetryIcon className="w-5 h-5" />
-        Try Again
-      </button>
+      {canChangeModel && (
+        <div className="flex flex-col sm:flex-row items-center gap-2 mb-4 w-full max-w-md">
+          <select
+            value={selectedModel}
+            onChange={(e) => setSelectedModel(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Alternative model"
+          >
+            {alternatives.map(choice => (
+              <option key={choice.key} value={choice.key}>{choice.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              const choice = alternatives.find(c => c.key === selectedModel);
+              if (choice) onChangeModel(choice.settings);
+            }}
+            className="w-full sm:w-auto flex-shrink-0 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md text-sm"
+          >
+            <SparklesIcon className="w-4 h-4" />
+            Try This Model
+          </button>
+        </div>
+      )}
+      <div className="flex flex-col sm:flex-row items-center gap-4">
+        {canRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md"
+          >
+            <RetryIcon className="w-5 h-5" />
+            Retry
+          </button>
+        )}
+        {canSaveAudio && (
+          <button
+            onClick={onSaveAudio}
+            className="flex items-center gap-2 px-5 py-3 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200"
+            aria-label="Download the audio to import it later"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            Save Audio for Later
+          </button>
+        )}
+        <button
+          onClick={onReset}
+          className={canRetry
+            ? "flex items-center gap-2 px-5 py-3 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200"
+            : "flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md"}
+        >
+          <RetryIcon className="w-5 h-5" />
+          {canRetry ? 'Start Over' : 'Try Again'}
+        </button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { SUPPORTED_IMPORT_FORMATS, MAX_IMPORT_FILE_SIZE_MB } from '../constants';
+import { UploadIcon } from './icons';
+
+interface FileImportProps {
+  onImportFile: (file: File) => void;
+  disabled?: boolean;
+}
+
+export const FileImport: React.FC<FileImportProps> = ({ onImportFile, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const extensions = Object.keys(SUPPORTED_IMPORT_FORMATS);
+  const accept = extensions.map(ext => `.${ext}`).join(',');
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file && !disabled) {
+      onImportFile(file);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); if (!disabled) setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => !disabled && inputRef.current?.click()}
+      className={`w-full flex flex-col items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed transition-all duration-200 ${isDragging ? 'bg-blue-900/50 border-blue-500' : 'bg-gray-800/60 border-gray-700 hover:border-gray-500'} ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      role="button"
+      aria-label="Import an audio file"
+    >
+      <UploadIcon className="w-8 h-8 text-gray-400" />
+      <p className="font-semibold text-gray-100">Drop an audio file here, or click to browse</p>
+      <p className="text-sm text-gray-400">
+        {extensions.map(ext => ext.toUpperCase()).join(', ')} up to {MAX_IMPORT_FILE_SIZE_MB}MB
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          // Allow selecting the same file again after a failed import.
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
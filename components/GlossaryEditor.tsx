@@ -0,0 +1,92 @@
+import React from 'react';
+import type { Glossary } from '../types';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface GlossaryEditorProps {
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+}
+
+const inputClassName = "w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+interface ColumnSpec<T> {
+  field: keyof T & string;
+  placeholder: string;
+}
+
+interface EntryListProps<T> {
+  title: string;
+  description: string;
+  rows: T[];
+  columns: ColumnSpec<T>[];
+  emptyRow: T;
+  onChange: (rows: T[]) => void;
+}
+
+// An editable table of glossary rows with one text input per column.
+const EntryList = <T extends object>({ title, description, rows, columns, emptyRow, onChange }: EntryListProps<T>) => (
+  <div className="space-y-2">
+    <div>
+      <span className="block text-sm font-medium text-gray-300">{title}</span>
+      <span className="block text-xs text-gray-500">{description}</span>
+    </div>
+    {rows.map((row, i) => (
+      <div key={i} className="flex gap-2">
+        {columns.map(({ field, placeholder }) => (
+          <input
+            key={field}
+            type="text"
+            value={String(row[field as keyof T] ?? '')}
+            onChange={(e) => onChange(rows.map((r, j) => (j === i ? { ...r, [field]: e.target.value } : r)))}
+            placeholder={placeholder}
+            aria-label={placeholder}
+            className={inputClassName}
+          />
+        ))}
+        <button
+          onClick={() => onChange(rows.filter((_, j) => j !== i))}
+          className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+          aria-label={`Remove from ${title.toLowerCase()}`}
+        >
+          <TrashIcon className="w-5 h-5" />
+        </button>
+      </div>
+    ))}
+    <button
+      onClick={() => onChange([...rows, emptyRow])}
+      className="flex items-center gap-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300"
+    >
+      <PlusIcon className="w-4 h-4" />
+      Add
+    </button>
+  </div>
+);
+
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, onChange }) => (
+  <div className="space-y-6">
+    <EntryList
+      title="People"
+      description="Colleagues and other speakers, with their role."
+      rows={glossary.people}
+      columns={[{ field: 'name', placeholder: 'Full name' }, { field: 'role', placeholder: 'Role (optional)' }]}
+      emptyRow={{ name: '', role: '' }}
+      onChange={(people) => onChange({ ...glossary, people })}
+    />
+    <EntryList
+      title="Terms"
+      description="Product names, codenames and acronyms, spelled the way you want them."
+      rows={glossary.terms}
+      columns={[{ field: 'term', placeholder: 'Term' }, { field: 'description', placeholder: 'What it means (optional)' }]}
+      emptyRow={{ term: '', description: '' }}
+      onChange={(terms) => onChange({ ...glossary, terms })}
+    />
+    <EntryList
+      title="Corrections"
+      description="Words the AI keeps getting wrong. They are replaced in every new note."
+      rows={glossary.corrections}
+      columns={[{ field: 'from', placeholder: 'Misspelling' }, { field: 'to', placeholder: 'Correct spelling' }]}
+      emptyRow={{ from: '', to: '' }}
+      onChange={(corrections) => onChange({ ...glossary, corrections })}
+    />
+  </div>
+);
@@ -1,14 +1,15 @@
 
 import React from 'react';
-import { MicIcon } from './icons';
+import { MicIcon, CogIcon } from './icons';
 
 interface HeaderProps {
     onNavClick: () => void;
     navLabel: string;
     NavIcon: React.FC<React.SVGProps<SVGSVGElement>>;
+    onSettingsClick?: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onNavClick, navLabel, NavIcon }) => {
+export const Header: React.FC<HeaderProps> = ({ onNavClick, navLabel, NavIcon, onSettingsClick }) => {
   return (
     <header className="text-center w-full relative">
       <div className="flex items-center justify-center gap-4 mb-2">
@@ -30,6 +31,15 @@ export const Header: React.FC<HeaderProps> = ({ onNavClick, navLabel, NavIcon })
         <NavIcon className="w-5 h-5" />
         {navLabel}
       </button>
+      {onSettingsClick && (
+        <button
+          onClick={onSettingsClick}
+          className="absolute top-0 left-0 p-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors duration-200 shadow-md"
+          aria-label="Settings"
+        >
+          <CogIcon className="w-6 h-6" />
+        </button>
+      )}
     </header>
   );
 };
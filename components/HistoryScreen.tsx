@@ -1,16 +1,67 @@
 
 import React from 'react';
-import { HistoryItem } from '../types';
+import { HistoryItem, NotesProvider, UsageRecord } from '../types';
+import { formatBytes, StorageStatus } from '../utils/storage';
+import { LibraryAsk } from './LibraryAsk';
+import { UsageSummary } from './UsageSummary';
+import type { RecordUsage } from '../hooks/useUsageLedger';
 import { TrashIcon, EyeIcon, ArrowLeftIcon, HistoryIcon } from './icons';
 
+interface StorageSummaryProps {
+  history: HistoryItem[];
+  status: StorageStatus | null;
+  onRequestPersistentStorage: () => void;
+}
+
+const StorageSummary: React.FC<StorageSummaryProps> = ({ history, status, onRequestPersistentStorage }) => {
+  const notesBytes = history.reduce((total, item) => total + item.sizeBytes, 0);
+  const usedPercent = status && status.quotaBytes > 0 ? Math.min(100, (status.usageBytes / status.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800/70 border border-gray-700 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-gray-300">
+        <span>
+          Recordings use <span className="font-semibold text-gray-100">{formatBytes(notesBytes)}</span>
+          {status && status.quotaBytes > 0 && (
+            <> · {formatBytes(status.usageBytes)} of {formatBytes(status.quotaBytes)} available storage used</>
+          )}
+        </span>
+        {status && (status.persisted ? (
+          <span className="text-green-400">Protected from automatic cleanup</span>
+        ) : (
+          <button onClick={onRequestPersistentStorage} className="text-cyan-400 hover:text-cyan-300 font-medium">
+            Protect from automatic cleanup
+          </button>
+        ))}
+      </div>
+      {status && status.quotaBytes > 0 && (
+        <div className="mt-3 h-2 w-full bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${usedPercent > 90 ? 'bg-red-500' : usedPercent > 75 ? 'bg-yellow-500' : 'bg-cyan-500'}`}
+            style={{ width: `${usedPercent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface HistoryScreenProps {
   history: HistoryItem[];
+  storageStatus: StorageStatus | null;
+  onRequestPersistentStorage: () => void;
+  // Answers questions across all notes.
+  provider: NotesProvider;
+  recordUsage: RecordUsage;
+  // The usage ledger, including requests for notes that have since been deleted.
+  usages: UsageRecord[];
+  monthlyBudgetUsd: number | null;
   onView: (id: string) => void;
   onDelete: (id: string) => void;
   onBack: () => void;
 }
 
-export const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onView, onDelete, onBack }) => {
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, storageStatus, onRequestPersistentStorage, provider, recordUsage, usages, monthlyBudgetUsd, onView, onDelete, onBack }) => {
 
   return (
     <div className="w-full text-left animate-fade-in">
@@ -28,6 +79,14 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onView, o
                 New Note
             </button>
         </div>
+
+        {history.length > 0 && (
+            <StorageSummary history={history} status={storageStatus} onRequestPersistentStorage={onRequestPersistentStorage} />
+        )}
+
+        {usages.length > 0 && <UsageSummary usages={usages} monthlyBudgetUsd={monthlyBudgetUsd} />}
+
+        {history.length > 0 && <LibraryAsk provider={provider} recordUsage={recordUsage} onOpenNote={onView} />}
         
         {history.length === 0 ? (
             <div className="text-center py-12 text-gray-400">
@@ -49,6 +108,8 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onView, o
                                     dateStyle: 'medium',
                                     timeStyle: 'short',
                                 })}
+                                {' · '}
+                                {item.hasAudio ? formatBytes(item.sizeBytes) : 'Notes only, audio not saved'}
                             </p>
                         </div>
                         <div className="flex items-center gap-2 ml-4">
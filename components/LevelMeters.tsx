@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SourceAnalysers } from '../types';
+import { SILENCE_RMS_THRESHOLD } from '../constants';
+import { MicIcon, ScreenDesktopIcon, WarningIcon } from './icons';
+import { computeRms } from '../utils/audioLevel';
+
+// Number of level samples kept for the scrolling waveform.
+const WAVEFORM_SAMPLES = 240;
+
+// Maps RMS onto a 0..1 scale over a -60dBFS..0dBFS range, which reads better than linear.
+const rmsToMeterLevel = (rms: number): number => {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db + 60) / 60));
+};
+
+interface SourceLevelRowProps {
+  analyser: AnalyserNode;
+  label: string;
+  icon: React.ReactNode;
+  color: string;
+  isPaused: boolean;
+  silenceWarningSeconds: number;
+}
+
+const SourceLevelRow: React.FC<SourceLevelRowProps> = ({ analyser, label, icon, color, isPaused, silenceWarningSeconds }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const meterRef = useRef<HTMLDivElement>(null);
+  const [silentForSeconds, setSilentForSeconds] = useState(0);
+
+  // Kept in refs so the animation loop doesn't restart when these change.
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+
+  useEffect(() => {
+    const samples = new Float32Array(analyser.fftSize);
+    const history: number[] = new Array(WAVEFORM_SAMPLES).fill(0);
+    let lastSoundAt = performance.now();
+    let lastReportedSilence = 0;
+    let frameId = 0;
+
+    const draw = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = computeRms(samples);
+      const level = rmsToMeterLevel(rms);
+      const now = performance.now();
+
+      // Silence while paused is expected, so it doesn't count towards the warning.
+      if (rms > SILENCE_RMS_THRESHOLD || isPausedRef.current) {
+        lastSoundAt = now;
+      }
+      const silentSeconds = Math.floor((now - lastSoundAt) / 1000);
+      if (silentSeconds !== lastReportedSilence) {
+        lastReportedSilence = silentSeconds;
+        setSilentForSeconds(silentSeconds);
+      }
+
+      if (meterRef.current) {
+        meterRef.current.style.width = `${Math.round(level * 100)}%`;
+      }
+
+      history.push(level);
+      history.shift();
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const { width, height } = canvas;
+        const barWidth = width / WAVEFORM_SAMPLES;
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = color;
+        history.forEach((value, i) => {
+          const barHeight = Math.max(1, value * height);
+          ctx.fillRect(i * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 0.5), barHeight);
+        });
+      }
+
+      frameId = requestAnimationFrame(draw);
+    };
+
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, [analyser, color]);
+
+  const showSilenceWarning = silenceWarningSeconds > 0 && silentForSeconds >= silenceWarningSeconds;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-3">
+        <div className="text-gray-400 flex-shrink-0">{icon}</div>
+        <span className="w-28 text-sm text-gray-300 text-left flex-shrink-0">{label}</span>
+        <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+          <div ref={meterRef} className="h-full rounded-full transition-[width] duration-75" style={{ width: '0%', backgroundColor: color }}></div>
+        </div>
+      </div>
+      <canvas ref={canvasRef} width={480} height={40} className="w-full h-10 mt-2 bg-gray-900/60 rounded"></canvas>
+      {showSilenceWarning && (
+        <p className="flex items-center gap-2 text-sm text-yellow-400 mt-1 text-left">
+          <WarningIcon className="w-4 h-4 flex-shrink-0" />
+          {label} has been silent for {silentForSeconds}s. Check that it isn't muted.
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface LevelMetersProps {
+  analysers: SourceAnalysers;
+  isPaused: boolean;
+  silenceWarningSeconds: number;
+}
+
+export const LevelMeters: React.FC<LevelMetersProps> = ({ analysers, isPaused, silenceWarningSeconds }) => {
+  if (!analysers.mic && !analysers.system) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-lg space-y-4 p-4 bg-gray-800/60 border border-gray-700 rounded-lg">
+      {analysers.mic && (
+        <SourceLevelRow
+          analyser={analysers.mic}
+          label="Microphone"
+          icon={<MicIcon className="w-5 h-5" />}
+          color="#22d3ee"
+          isPaused={isPaused}
+          silenceWarningSeconds={silenceWarningSeconds}
+        />
+      )}
+      {analysers.system && (
+        <SourceLevelRow
+          analyser={analysers.system}
+          label="Screen Audio"
+          icon={<ScreenDesktopIcon className="w-5 h-5" />}
+          color="#a78bfa"
+          isPaused={isPaused}
+          silenceWarningSeconds={silenceWarningSeconds}
+        />
+      )}
+    </div>
+  );
+};
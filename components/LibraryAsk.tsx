@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import type { NotesProvider } from '../types';
+import { useLibraryAsk } from '../hooks/useLibraryAsk';
+import type { RecordUsage } from '../hooks/useUsageLedger';
+import { formatPlaybackTime } from './MarkerList';
+import { SparklesIcon } from './icons';
+
+interface LibraryAskProps {
+  provider: NotesProvider;
+  recordUsage?: RecordUsage;
+  onOpenNote: (id: string) => void;
+}
+
+// Renders an answer with its [n] citations turned into links to the cited note.
+const AnswerText: React.FC<{ text: string; onCite: (n: number) => void; sourceCount: number }> = ({ text, onCite, sourceCount }) => (
+  <p className="text-gray-200 leading-relaxed whitespace-pre-line">
+    {text.split(/(\[\d+\])/g).map((part, i) => {
+      const n = Number(part.match(/^\[(\d+)\]$/)?.[1]);
+      if (!n || n > sourceCount) return <React.Fragment key={i}>{part}</React.Fragment>;
+      return (
+        <button key={i} onClick={() => onCite(n)} className="text-cyan-400 hover:text-cyan-300 font-semibold align-super text-xs px-0.5">
+          [{n}]
+        </button>
+      );
+    })}
+  </p>
+);
+
+export const LibraryAsk: React.FC<LibraryAskProps> = ({ provider, recordUsage, onOpenNote }) => {
+  const { answer, noMatches, isAsking, error, ask, cancel } = useLibraryAsk(provider, recordUsage);
+  const [question, setQuestion] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (text && !isAsking) ask(text);
+  };
+
+  const citedSources = answer ? answer.cited.map(n => ({ n, source: answer.sources[n - 1] })) : [];
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800/70 border border-gray-700 rounded-lg">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask across all your notes, e.g. when did we decide to drop the beta?"
+          aria-label="Question about all notes"
+          className="flex-1 bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isAsking}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          Ask
+        </button>
+      </form>
+
+      {isAsking && (
+        <div className="flex items-center gap-3 mt-4 text-gray-400 text-sm">
+          <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+          Searching your notes...
+          <button onClick={cancel} className="text-gray-400 hover:text-white underline">Cancel</button>
+        </div>
+      )}
+      {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+      {noMatches && <p className="mt-4 text-sm text-gray-400">None of your notes mention anything related to that question.</p>}
+
+      {answer && (
+        <div className="mt-4 space-y-3">
+          <AnswerText
+            text={answer.answer}
+            sourceCount={answer.sources.length}
+            onCite={(n) => onOpenNote(answer.sources[n - 1].noteId)}
+          />
+          {citedSources.length > 0 && (
+            <ol className="space-y-2 text-sm">
+              {citedSources.map(({ n, source }) => (
+                <li key={n}>
+                  <button
+                    onClick={() => onOpenNote(source.noteId)}
+                    className="w-full text-left p-2 rounded-lg hover:bg-gray-700/60 transition-colors"
+                  >
+                    <span className="text-cyan-400 font-semibold mr-2">[{n}]</span>
+                    <span className="text-gray-100 font-medium">{source.title}</span>
+                    <span className="text-gray-400">
+                      {' · '}{new Date(source.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                      {' · '}{source.label}
+                      {source.startSeconds !== undefined && ` at ${formatPlaybackTime(source.startSeconds)}`}
+                    </span>
+                    <span className="block text-gray-400 truncate">{source.text}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
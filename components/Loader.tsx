@@ -1,15 +1,37 @@
 
 import React from 'react';
+import type { GenerationProgress } from '../types';
 
 interface LoaderProps {
   message?: string;
+  progress?: GenerationProgress | null;
+  onCancel?: () => void;
 }
 
-export const Loader: React.FC<LoaderProps> = ({ message = 'Processing...' }) => {
+export const Loader: React.FC<LoaderProps> = ({ message = 'Processing...', progress, onCancel }) => {
   return (
     <div className="flex flex-col items-center justify-center text-center p-8">
       <div className="w-16 h-16 border-4 border-blue-400 border-t-transparent rounded-full animate-spin mb-4"></div>
       <p className="text-xl text-gray-300">{message}</p>
+      {progress && progress.total > 1 && (
+        <div className="w-64 mt-4">
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-500"
+              style={{ width: `${Math.round((progress.completed / progress.total) * 100)}%` }}
+            ></div>
+          </div>
+          <p className="text-sm text-gray-400 mt-2">{progress.detail ?? `${progress.completed} of ${progress.total} segments done`}</p>
+        </div>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 px-5 py-2 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { Marker, MarkerType } from '../types';
+import { MARKER_TYPES } from '../constants';
+
+const MARKER_COLORS: Record<MarkerType, string> = {
+  important: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40',
+  decision: 'bg-green-500/20 text-green-300 border-green-500/40',
+  action: 'bg-blue-500/20 text-blue-300 border-blue-500/40',
+};
+
+export const markerLabel = (type: MarkerType) =>
+  MARKER_TYPES.find(markerType => markerType.type === type)?.label ?? type;
+
+export const formatPlaybackTime = (seconds: number) =>
+  new Date(Math.max(0, seconds) * 1000).toISOString().slice(seconds >= 3600 ? 11 : 14, 19);
+
+interface MarkerListProps {
+  markers: Marker[];
+  // When provided, markers become buttons, e.g. to seek the audio player.
+  onSelect?: (marker: Marker) => void;
+}
+
+export const MarkerList: React.FC<MarkerListProps> = ({ markers, onSelect }) => {
+  if (markers.length === 0) return null;
+  return (
+    <ul className="flex flex-wrap justify-center gap-2">
+      {markers.map(marker => {
+        const content = (
+          <>
+            <span className="font-mono">{formatPlaybackTime(marker.timeSeconds)}</span>
+            <span>{markerLabel(marker.type)}</span>
+          </>
+        );
+        const className = `flex items-center gap-2 px-2.5 py-1 text-xs font-semibold rounded-full border ${MARKER_COLORS[marker.type]}`;
+        return (
+          <li key={marker.id}>
+            {onSelect ? (
+              <button onClick={() => onSelect(marker)} className={`${className} hover:brightness-125`}>
+                {content}
+              </button>
+            ) : (
+              <span className={className}>{content}</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface MicDeviceSelectProps {
+  devices: MediaDeviceInfo[];
+  deviceId: string | null;
+  onChange: (deviceId: string | null) => void;
+  disabled?: boolean;
+}
+
+export const MicDeviceSelect: React.FC<MicDeviceSelectProps> = ({ devices, deviceId, onChange, disabled = false }) => (
+  <select
+    value={deviceId ?? ''}
+    onChange={(e) => onChange(e.target.value || null)}
+    disabled={disabled}
+    className="w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+    aria-label="Microphone device"
+  >
+    <option value="">Default microphone</option>
+    {devices.map((device, i) => (
+      <option key={device.deviceId} value={device.deviceId}>
+        {device.label || `Microphone ${i + 1}`}
+      </option>
+    ))}
+  </select>
+);
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ChatMessage, Notes, NoteTemplate, NotesProvider } from '../types';
+import { useNoteChat } from '../hooks/useNoteChat';
+import type { RecordUsage } from '../hooks/useUsageLedger';
+import { formatPlaybackTime } from './MarkerList';
+import { TrashIcon } from './icons';
+
+interface NoteChatProps {
+  noteId: string;
+  initialMessages: ChatMessage[];
+  provider: NotesProvider;
+  recordUsage?: RecordUsage;
+  notes: Notes;
+  template?: NoteTemplate;
+  audioBlob: Blob | null;
+  onSeek?: (seconds: number) => void;
+  // Receives the conversation whenever it changes.
+  onMessagesChange?: (messages: ChatMessage[]) => void;
+}
+
+export const NoteChat: React.FC<NoteChatProps> = ({ noteId, initialMessages, provider, recordUsage, notes, template, audioBlob, onSeek, onMessagesChange }) => {
+  const { messages, isAsking, error, ask, cancel, clear } = useNoteChat(noteId, initialMessages, provider, recordUsage);
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [messages.length, isAsking]);
+
+  useEffect(() => {
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAsking) return;
+    setQuestion('');
+    ask(text, { notes, template, audioBlob });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {messages.length === 0 ? (
+        <p className="text-gray-400">Ask a follow-up question about this recording, e.g. "What exactly was said about the budget?"</p>
+      ) : (
+        <ol className="space-y-3">
+          {messages.map(message => (
+            <li key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] p-3 rounded-lg ${message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-800/80 border border-gray-700 text-gray-200'}`}>
+                <p className="whitespace-pre-line leading-relaxed">{message.text}</p>
+                {message.references && message.references.length > 0 && (
+                  <ul className="flex flex-wrap gap-2 mt-2">
+                    {message.references.map((reference, i) => {
+                      const time = reference.startSeconds;
+                      const content = (
+                        <>
+                          {time != null && <span className="font-mono">{formatPlaybackTime(time)}</span>}
+                          <span>{reference.label}</span>
+                        </>
+                      );
+                      const className = 'flex items-center gap-2 px-2.5 py-1 text-xs rounded-full border border-cyan-500/40 bg-cyan-500/10 text-cyan-300 text-left';
+                      return (
+                        <li key={i}>
+                          {time != null && onSeek ? (
+                            <button onClick={() => onSeek(time)} className={`${className} hover:brightness-125`}>{content}</button>
+                          ) : (
+                            <span className={className}>{content}</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            </li>
+          ))}
+          {isAsking && (
+            <li className="flex items-center gap-3 text-gray-400">
+              <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+              Thinking...
+              <button onClick={cancel} className="text-sm text-gray-400 hover:text-white underline">Cancel</button>
+            </li>
+          )}
+        </ol>
+      )}
+      <div ref={endRef} />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask about this recording..."
+          aria-label="Question about this recording"
+          className="flex-1 bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isAsking}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Ask
+        </button>
+        {messages.length > 0 && (
+          <button
+            type="button"
+            onClick={() => window.confirm('Clear this conversation?') && clear()}
+            className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+            aria-label="Clear conversation"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
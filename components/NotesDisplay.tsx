@@ -1,83 +1,119 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { Notes } from '../types';
+import type { ConversationAnalytics, Notes, SourceTracks, Marker, NoteTemplate, ChatMessage, NotesProvider, NoteTranslation, NoteUsage, TemplateSection, TemplateSectionKind, Participant, ActionItem, Topic, Definition } from '../types';
+import { BUILT_IN_TEMPLATES, sectionValue } from '../utils/templates';
+import { generateFilename, triggerDownload } from '../utils/fileUtils';
+import { AudioDownloadMenu } from './AudioDownloadMenu';
+import { MarkerList, markerLabel, formatPlaybackTime } from './MarkerList';
+import { TranscriptView } from './TranscriptView';
+import { NoteChat } from './NoteChat';
+import type { RecordUsage } from '../hooks/useUsageLedger';
+import { TranslationBar } from './TranslationBar';
+import { AddToGlossary } from './AddToGlossary';
+import type { GlossaryEntry } from '../utils/glossary';
+import { findLanguage } from '../utils/translation';
+import { formatCost } from '../utils/usage';
+import { formatDuration } from '../utils/conversationAnalytics';
+import { AnalyticsView } from './AnalyticsView';
 import { 
     DownloadIcon, RetryIcon, UsersIcon, CheckCircleIcon, ClipboardListIcon, 
-    ChatBubbleLeftRightIcon, BookOpenIcon, LightBulbIcon, DocumentTextIcon, SoundWaveIcon, ArrowLeftIcon 
+    ChatBubbleLeftRightIcon, BookOpenIcon, LightBulbIcon, DocumentTextIcon, ArrowLeftIcon, BookmarkIcon, SparklesIcon, ChartBarIcon
 } from './icons';
 
-const generateFilename = (title: string, extension: string) => {
-  const now = new Date();
-  // Using local timezone for filename
-  const pad = (num: number) => String(num).padStart(2, '0');
-  const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}`;
-  const sanitizedTitle = title.replace(/[\s\W_]+/g, '_').replace(/_+$/, '');
-  return `${sanitizedTitle}_${timestamp}.${extension}`;
-}
+// Returns a section's content, or null when the model left it empty.
+const sectionContent = (notes: Notes, section: TemplateSection): unknown => {
+  const value = sectionValue(notes, section);
+  if (Array.isArray(value)) return value.length > 0 ? value : null;
+  return typeof value === 'string' && value.trim() ? value : null;
+};
+
+const formatSectionText = (section: TemplateSection, value: unknown): string => {
+  switch (section.kind) {
+    case 'text':
+      return value as string;
+    case 'list':
+      return (value as string[]).map(item => `- ${item}`).join('\n');
+    case 'participants':
+      return (value as Participant[]).map(p => `- ${p.name}${p.role ? ` (${p.role})` : ''}`).join('\n');
+    case 'actionItems':
+      return (value as ActionItem[]).map(a => `- [ ] ${a.task} (Assigned to: ${a.assignee})`).join('\n');
+    case 'definitions':
+      return (value as Definition[]).map(d => `- **${d.term}:** ${d.definition}`).join('\n');
+    case 'topics':
+      return (value as Topic[]).map(topic => {
+        let content = `### Topic: ${topic.topic}\n`;
+        if (topic.keyIdeas && topic.keyIdeas.length > 0) {
+          content += `#### Key Ideas:\n`;
+          content += topic.keyIdeas.map(idea => `  - ${idea}`).join('\n');
+          content += `\n`;
+        }
+        if (topic.quotes && topic.quotes.length > 0) {
+          content += `#### Notable Quotes:\n`;
+          content += topic.quotes.map(q => `  > ${q}`).join('\n');
+          content += `\n`;
+        }
+        return content;
+      }).join('\n');
+  }
+};
+
+const hasAnalytics = (analytics: ConversationAnalytics | undefined): analytics is ConversationAnalytics =>
+  !!analytics && (analytics.speakers.length > 0 || analytics.topicSentiment.length > 0 || !!analytics.audio);
+
+const formatAnalyticsText = ({ speakers, topicSentiment, audio }: ConversationAnalytics): string => {
+  const lines = speakers.map(s =>
+    `- ${s.speaker}: ${formatDuration(s.talkSeconds)} talk time, ${s.turns} turns, longest monologue ${formatDuration(s.longestMonologueSeconds)}, ${s.questions} questions, ${s.interruptions} interruptions`);
+  if (topicSentiment.length > 0) {
+    lines.push(`### Sentiment by Topic`);
+    lines.push(...topicSentiment.map(t => `- ${t.topic}: ${t.sentiment} (${t.score.toFixed(2)})`));
+  }
+  if (audio) {
+    lines.push(`### Speech and Silence`);
+    lines.push(`- Speech: ${formatDuration(audio.speechSeconds)} of ${formatDuration(audio.durationSeconds)}`);
+    lines.push(...(audio.tracks ?? []).map(t => `- ${t.label}: ${formatDuration(t.speechSeconds)} of speech`));
+    if (audio.overlapSeconds !== undefined) lines.push(`- Both talking at once: ${formatDuration(audio.overlapSeconds)}`);
+  }
+  return lines.join('\n');
+};
 
-const createNoteContent = (notes: Notes): string => {
+const createNoteContent = (notes: Notes, markers: Marker[], template: NoteTemplate): string => {
   let content = `# ${notes.title}\n\n`;
   
   content += `## Final Summary\n${notes.summary}\n\n`;
 
-  if (notes.participants && notes.participants.length > 0) {
-    content += `## Participants\n`;
-    content += notes.participants.map(p => `- ${p.name}${p.role ? ` (${p.role})` : ''}`).join('\n');
-    content += `\n\n`;
-  }
-  
-  if (notes.decisions && notes.decisions.length > 0) {
-    content += `## Decisions Made\n`;
-    content += notes.decisions.map(d => `- ${d}`).join('\n');
+  if (markers.length > 0) {
+    content += `## Markers\n`;
+    content += markers.map(m => `- ${formatPlaybackTime(m.timeSeconds)} ${markerLabel(m.type)}`).join('\n');
     content += `\n\n`;
   }
 
-  if (notes.actionItems && notes.actionItems.length > 0) {
-    content += `## Action Items\n`;
-    content += notes.actionItems.map(a => `- [ ] ${a.task} (Assigned to: ${a.assignee})`).join('\n');
-    content += `\n\n`;
-  }
-  
-  if (notes.topics && notes.topics.length > 0) {
-    content += `## Discussion Topics\n\n`;
-    notes.topics.forEach(topic => {
-      content += `### Topic: ${topic.topic}\n`;
-      if (topic.keyIdeas && topic.keyIdeas.length > 0) {
-        content += `#### Key Ideas:\n`;
-        content += topic.keyIdeas.map(idea => `  - ${idea}`).join('\n');
-        content += `\n`;
-      }
-      if (topic.quotes && topic.quotes.length > 0) {
-        content += `#### Notable Quotes:\n`;
-        content += topic.quotes.map(q => `  > ${q}`).join('\n');
-        content += `\n`;
-      }
-      content += `\n`;
-    });
+  template.sections.forEach(section => {
+    const value = sectionContent(notes, section);
+    if (value === null) return;
+    content += `## ${section.title}\n${formatSectionText(section, value)}\n\n`;
+  });
+
+  if (hasAnalytics(notes.analytics)) {
+    content += `## Conversation Analytics\n${formatAnalyticsText(notes.analytics)}\n\n`;
   }
 
-  if (notes.definitions && notes.definitions.length > 0) {
-    content += `## Key Definitions\n`;
-    content += notes.definitions.map(d => `- **${d.term}:** ${d.definition}`).join('\n');
+  if (notes.transcript && notes.transcript.length > 0) {
+    content += `## Transcript\n`;
+    content += notes.transcript.map(t => `[${formatPlaybackTime(t.startSeconds)}] ${t.speaker}: ${t.text}`).join('\n');
     content += `\n\n`;
   }
   return content.trim();
 };
 
-const triggerDownload = (blob: Blob, filename: string) => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-}
+const translationHeading = (translation: NoteTranslation) =>
+  `Translation: ${findLanguage(translation.language)?.name ?? translation.language}`;
 
-const downloadNotesAsText = (notes: Notes) => {
-  const content = createNoteContent(notes);
+const downloadNotesAsText = (notes: Notes, markers: Marker[], template: NoteTemplate, translations: NoteTranslation[]) => {
+  const content = [
+    createNoteContent(notes, markers, template),
+    ...translations.map(translation => `[${translationHeading(translation)}]\n\n${createNoteContent(translation.notes, [], template)}`),
+  ].join('\n\n---\n\n');
   const filename = generateFilename(notes.title, 'txt');
   const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
   triggerDownload(blob, filename);
@@ -99,19 +135,201 @@ const Section: React.FC<SectionProps> = ({ icon, title, children }) => (
     </section>
 )
 
-export const NotesDisplay: React.FC<{ notes: Notes; onNewNote: () => void; onBackToHistory?: () => void; audioBlob: Blob | null }> = ({ notes, onNewNote, onBackToHistory, audioBlob }) => {
+const SECTION_ICONS: Record<TemplateSectionKind, React.FC<{ className?: string }>> = {
+    text: DocumentTextIcon,
+    list: CheckCircleIcon,
+    participants: UsersIcon,
+    topics: ChatBubbleLeftRightIcon,
+    definitions: BookOpenIcon,
+    actionItems: ClipboardListIcon,
+};
+
+// Short sections that are laid out side by side on wide screens.
+const isCompact = (section: TemplateSection) => section.kind === 'participants' || section.kind === 'list';
+
+const SectionBody: React.FC<{ section: TemplateSection; value: unknown }> = ({ section, value }) => {
+    switch (section.kind) {
+        case 'text':
+            return <p className="text-gray-300 leading-relaxed whitespace-pre-line">{value as string}</p>;
+        case 'list':
+            return (
+                <ul className="space-y-2 list-disc list-inside text-gray-300">
+                    {(value as string[]).map((item, i) => <li key={i} className="leading-relaxed">{item}</li>)}
+                </ul>
+            );
+        case 'participants':
+            return (
+                <ul className="space-y-2 text-gray-300">
+                    {(value as Participant[]).map((p, i) => <li key={i} className="flex items-center gap-2">
+                        <span className="font-medium text-gray-200">{p.name}</span> 
+                        {p.role && <span className="text-sm text-gray-400 italic">- {p.role}</span>}
+                    </li>)}
+                </ul>
+            );
+        case 'actionItems':
+            return (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead className="border-b border-gray-600">
+                            <tr>
+                                <th className="p-2 text-gray-300 font-semibold">Task</th>
+                                <th className="p-2 text-gray-300 font-semibold">Assigned To</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {(value as ActionItem[]).map((item, i) => (
+                                <tr key={i} className="border-b border-gray-700">
+                                    <td className="p-2 text-gray-300">{item.task}</td>
+                                    <td className="p-2 text-gray-400">{item.assignee}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'topics':
+            return (
+                <div className="space-y-6">
+                    {(value as Topic[]).map((topic, i) => (
+                        <div key={i} className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+                            <h4 className="font-semibold text-lg text-gray-200 mb-2">{topic.topic}</h4>
+                            {topic.keyIdeas?.length > 0 && (
+                                <>
+                                    <h5 className="font-medium text-gray-400 mb-1">Key Ideas:</h5>
+                                    <ul className="space-y-1.5 list-disc list-inside text-gray-300 pl-2">
+                                        {topic.keyIdeas.map((idea, j) => <li key={j}>{idea}</li>)}
+                                    </ul>
+                                </>
+                            )}
+                             {topic.quotes?.length > 0 && (
+                                <div className="mt-3">
+                                    <h5 className="font-medium text-gray-400 mb-1">Notable Quotes:</h5>
+                                    <blockquote className="space-y-2">
+                                        {topic.quotes.map((q, j) => <p key={j} className="border-l-4 border-cyan-500 pl-3 italic text-gray-400">{q}</p>)}
+                                    </blockquote>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            );
+        case 'definitions':
+            return (
+                <ul className="space-y-3 text-gray-300">
+                    {(value as Definition[]).map((def, i) => (
+                        <li key={i}>
+                            <span className="font-semibold text-gray-200">{def.term}:</span> {def.definition}
+                        </li>
+                    ))}
+                </ul>
+            );
+    }
+};
+
+const TemplateSections: React.FC<{ notes: Notes; template: NoteTemplate }> = ({ notes, template }) => {
+    const filled = template.sections
+        .map(section => ({ section, value: sectionContent(notes, section) }))
+        .filter(({ value }) => value !== null);
+
+    // Group runs of compact sections so they can share a two-column grid.
+    const groups: (typeof filled)[] = [];
+    filled.forEach(entry => {
+        const last = groups[groups.length - 1];
+        if (last && isCompact(entry.section) && isCompact(last[0].section)) {
+            last.push(entry);
+        } else {
+            groups.push([entry]);
+        }
+    });
+
+    const renderSection = ({ section, value }: (typeof filled)[number]) => {
+        const Icon = SECTION_ICONS[section.kind];
+        return (
+            <Section key={section.key} icon={<Icon className="w-6 h-6 text-cyan-400"/>} title={section.title}>
+                <SectionBody section={section} value={value} />
+            </Section>
+        );
+    };
+
+    return (
+        <>
+            {groups.map(group => group.length > 1 ? (
+                <div key={group[0].section.key} className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                    {group.map(renderSection)}
+                </div>
+            ) : renderSection(group[0]))}
+        </>
+    );
+};
+
+const UsageDetails: React.FC<{ usage: NoteUsage }> = ({ usage }) => (
+    <p className="notes-controls mb-6 text-xs text-gray-500">
+        {[
+            usage.model,
+            `${Math.floor(usage.audioSeconds / 60)}m ${Math.round(usage.audioSeconds % 60)}s of audio`,
+            `${usage.inputTokens.toLocaleString()} input / ${usage.outputTokens.toLocaleString()} output tokens`,
+            usage.costUsd === null ? 'no price set for this model' : `about ${formatCost(usage.costUsd)}`,
+        ].join(' · ')}
+    </p>
+);
+
+interface NotesDisplayProps {
+  notes: Notes;
+  template?: NoteTemplate;
+  onNewNote: () => void;
+  onBackToHistory?: () => void;
+  audioBlob: Blob | null;
+  sourceTracks?: SourceTracks | null;
+  markers?: Marker[];
+  audioNotSaved?: boolean;
+  // Version switcher and regenerate controls, shown for saved notes.
+  versionControls?: React.ReactNode;
+  // Enables the chat tab once the note has been saved.
+  chat?: { noteId: string; messages: ChatMessage[]; provider: NotesProvider; recordUsage?: RecordUsage; onMessagesChange?: (messages: ChatMessage[]) => void };
+  translations?: NoteTranslation[];
+  // Enables the Translate action once the note has been saved.
+  onTranslate?: (code: string) => Promise<void>;
+  onAddToGlossary?: (entry: GlossaryEntry) => void;
+  // Set while the notes are still streaming in. They are an unvalidated preview,
+  // so exports are hidden until generation finishes.
+  streaming?: { label: string; onCancel: () => void };
+  // Tokens and cost of the generation being shown.
+  usage?: NoteUsage;
+}
+
+type NotesTab = 'notes' | 'transcript' | 'chat';
+
+const TAB_LABELS: Record<NotesTab, string> = { notes: 'Notes', transcript: 'Transcript', chat: 'Ask' };
+
+export const NotesDisplay: React.FC<NotesDisplayProps> = ({ notes, template = BUILT_IN_TEMPLATES[0], onNewNote, onBackToHistory, audioBlob, sourceTracks, markers = [], audioNotSaved = false, versionControls, chat, translations = [], onTranslate, onAddToGlossary, streaming, usage }) => {
   const notesContainerRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
-
-  const handleDownloadAudio = () => {
-    if (!audioBlob) return;
-    try {
-      const filename = generateFilename(notes.title, 'webm');
-      triggerDownload(audioBlob, filename);
-    } catch (error) {
-      console.error("Failed to prepare audio for download:", error);
-      alert("Sorry, there was an error downloading the audio file.");
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<NotesTab>('notes');
+  const [currentTime, setCurrentTime] = useState(0);
+  const [activeLanguage, setActiveLanguage] = useState<string | null>(null);
+  // Falls back to the original when this version has no translation in the chosen language.
+  const activeTranslation = translations.find(translation => translation.language === activeLanguage);
+  const displayedNotes = activeTranslation?.notes ?? notes;
+
+  useEffect(() => {
+    if (!audioBlob) {
+      setAudioUrl(null);
+      return;
     }
+    const url = URL.createObjectURL(audioBlob);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audioBlob]);
+
+  const tabs: NotesTab[] = ['notes', ...(notes.transcript ? ['transcript' as const] : []), ...(chat ? ['chat' as const] : [])];
+
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    audio.play().catch(err => console.error("Failed to start playback:", err));
   };
 
   const downloadNotesAsHtml = () => {
@@ -123,8 +341,8 @@ export const NotesDisplay: React.FC<{ notes: Notes; onNewNote: () => void; onBac
     const clonedNode = notesContainerRef.current.cloneNode(true) as HTMLElement;
 
     // Remove the controls from the cloned node so they don't appear in the file
-    const controls = clonedNode.querySelector('.notes-controls');
-    controls?.remove();
+    clonedNode.querySelectorAll('.notes-controls').forEach(el => el.remove());
+    clonedNode.querySelectorAll('.export-only').forEach(el => el.classList.remove('hidden'));
 
     // Remove the scroll container class to show all content in the downloaded file
     const contentArea = clonedNode.querySelector('.notes-content-area');
@@ -186,8 +404,8 @@ export const NotesDisplay: React.FC<{ notes: Notes; onNewNote: () => void; onBac
           clonedContainer.style.boxSizing = 'border-box'; // Ensure padding is included in width
 
           // Remove the controls so they don't appear in the PDF
-          const controls = clonedContainer.querySelector('.notes-controls');
-          controls?.remove();
+          clonedContainer.querySelectorAll('.notes-controls').forEach(el => el.remove());
+          clonedContainer.querySelectorAll('.export-only').forEach(el => el.classList.remove('hidden'));
 
           // Expand the scrollable area to capture all content
           const contentArea = clonedContainer.querySelector('.notes-content-area');
@@ -255,10 +473,24 @@ export const NotesDisplay: React.FC<{ notes: Notes; onNewNote: () => void; onBac
   return (
     <div ref={notesContainerRef} className="w-full text-left animate-fade-in">
         <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between mb-6">
-            <h2 className="text-3xl font-bold text-white mb-4 sm:mb-0 pr-4 flex-1">{notes.title}</h2>
+            <h2 className={`text-3xl font-bold mb-4 sm:mb-0 pr-4 flex-1 ${displayedNotes.title ? 'text-white' : 'text-gray-500'}`}>
+                {displayedNotes.title || (streaming ? 'Writing notes...' : '')}
+            </h2>
+            {streaming ? (
+            <div className="notes-controls flex items-center gap-3 flex-shrink-0">
+                <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                <span className="text-sm text-gray-400">{streaming.label}</span>
+                <button
+                    onClick={streaming.onCancel}
+                    className="px-4 py-2 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200 text-sm"
+                >
+                    Cancel
+                </button>
+            </div>
+            ) : (
             <div className="notes-controls flex items-center gap-2 flex-wrap flex-shrink-0">
                 <button
-                    onClick={() => downloadNotesAsText(notes)}
+                    onClick={() => downloadNotesAsText(notes, markers, template, translations)}
                     className="flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md text-sm"
                     aria-label="Download notes as text file"
                 >
@@ -283,14 +515,7 @@ export const NotesDisplay: React.FC<{ notes: Notes; onNewNote: () => void; onBac
                     {isGeneratingPdf ? '...' : 'PDF'}
                 </button>
                 {audioBlob && (
-                    <button
-                        onClick={handleDownloadAudio}
-                        className="flex items-center justify-center gap-2 px-3 py-2 w-36 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md text-sm"
-                        aria-label="Download recorded audio as WebM"
-                    >
-                        <SoundWaveIcon className="w-4 h-4" />
-                        Audio (WebM)
-                    </button>
+                    <AudioDownloadMenu title={notes.title} audioBlob={audioBlob} sourceTracks={sourceTracks} />
                 )}
                 {onBackToHistory ? (
                     <button
@@ -312,95 +537,133 @@ export const NotesDisplay: React.FC<{ notes: Notes; onNewNote: () => void; onBac
                     </button>
                 )}
             </div>
+            )}
         </div>
+
+      {audioNotSaved && (
+        <p className="notes-controls mb-6 p-3 text-sm text-yellow-300 bg-yellow-900/30 border border-yellow-700 rounded-lg">
+          Browser storage is full, so these notes were saved without their audio. Download the audio now if you want to keep it.
+        </p>
+      )}
+
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          className="notes-controls w-full mb-6"
+        />
+      )}
+
+      {versionControls}
+
+      {usage && <UsageDetails usage={usage} />}
+
+      {onTranslate && (
+        <TranslationBar
+          translations={translations}
+          activeLanguage={activeTranslation ? activeLanguage : null}
+          onSelectLanguage={setActiveLanguage}
+          onTranslate={onTranslate}
+        />
+      )}
+
+      {onAddToGlossary && <AddToGlossary onAdd={onAddToGlossary} />}
+
+      {tabs.length > 1 && (
+        <div className="notes-controls flex gap-2 mb-6 border-b border-gray-700" role="tablist">
+          {tabs.map(tab => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={activeTab === tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 -mb-px font-semibold border-b-2 transition-colors duration-200 ${activeTab === tab ? 'border-cyan-400 text-cyan-400' : 'border-transparent text-gray-400 hover:text-gray-200'}`}
+            >
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+      )}
       
       <div className="notes-content-area space-y-8 max-h-[60vh] overflow-y-auto pr-4 -mr-4">
-        <Section icon={<LightBulbIcon className="w-6 h-6 text-cyan-400"/>} title="Final Summary">
-            <p className="text-gray-300 leading-relaxed">{notes.summary}</p>
-        </Section>
+        {activeTab === 'transcript' && notes.transcript && (
+          <div className="notes-controls">
+            <TranscriptView
+              transcript={notes.transcript}
+              currentTime={currentTime}
+              onSeek={audioUrl ? seekTo : undefined}
+            />
+          </div>
+        )}
+        {/* HTML and PDF exports always show the notes, so they stay rendered,
+            hidden, while another tab is open. */}
+        <div className={`space-y-8 ${activeTab === 'notes' ? '' : 'export-only hidden'}`}>
+          {(displayedNotes.summary || !streaming) && (
+              <Section icon={<LightBulbIcon className="w-6 h-6 text-cyan-400"/>} title="Final Summary">
+                  <p className="text-gray-300 leading-relaxed">{displayedNotes.summary}</p>
+              </Section>
+          )}
+
+          {markers.length > 0 && (
+              <Section icon={<BookmarkIcon className="w-6 h-6 text-cyan-400"/>} title="Markers">
+                  <div className="flex">
+                      <MarkerList markers={markers} onSelect={audioUrl ? (marker) => seekTo(marker.timeSeconds) : undefined} />
+                  </div>
+              </Section>
+          )}
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            {notes.participants?.length > 0 && (
-                <Section icon={<UsersIcon className="w-6 h-6 text-cyan-400"/>} title="Participants">
-                    <ul className="space-y-2 text-gray-300">
-                        {notes.participants.map((p, i) => <li key={i} className="flex items-center gap-2">
-                            <span className="font-medium text-gray-200">{p.name}</span> 
-                            {p.role && <span className="text-sm text-gray-400 italic">- {p.role}</span>}
-                        </li>)}
-                    </ul>
-                </Section>
-            )}
-
-            {notes.decisions?.length > 0 && (
-                <Section icon={<CheckCircleIcon className="w-6 h-6 text-cyan-400"/>} title="Decisions Made">
-                    <ul className="space-y-2 list-disc list-inside text-gray-300">
-                        {notes.decisions.map((d, i) => <li key={i} className="leading-relaxed">{d}</li>)}
-                    </ul>
-                </Section>
-            )}
+          <TemplateSections notes={displayedNotes} template={template} />
+
+          {/* Analytics describe the recording, so translations show the original's. */}
+          {hasAnalytics(notes.analytics) && (
+              <Section icon={<ChartBarIcon className="w-6 h-6 text-cyan-400"/>} title="Conversation Analytics">
+                  <AnalyticsView analytics={notes.analytics} />
+              </Section>
+          )}
+
+          {streaming && (
+              <p className="flex items-center gap-2 text-sm text-gray-500 animate-pulse">
+                  <SparklesIcon className="w-4 h-4" />
+                  More sections will appear as the AI writes them.
+              </p>
+          )}
+
+          {/* Every other language is hidden on screen but included in HTML and PDF exports. */}
+          {[
+            ...(activeTranslation ? [{ heading: 'Original', notes }] : []),
+            ...translations.filter(t => t !== activeTranslation).map(t => ({ heading: translationHeading(t), notes: t.notes })),
+          ].map(({ heading, notes: otherNotes }) => (
+            <div key={heading} className="export-only hidden space-y-8 pt-8 border-t border-gray-700">
+              <div>
+                <p className="text-sm font-semibold uppercase tracking-wide text-gray-400">{heading}</p>
+                <h2 className="text-3xl font-bold text-white">{otherNotes.title}</h2>
+              </div>
+              <Section icon={<LightBulbIcon className="w-6 h-6 text-cyan-400"/>} title="Final Summary">
+                <p className="text-gray-300 leading-relaxed">{otherNotes.summary}</p>
+              </Section>
+              <TemplateSections notes={otherNotes} template={template} />
+            </div>
+          ))}
         </div>
-        
-        {notes.actionItems?.length > 0 && (
-            <Section icon={<ClipboardListIcon className="w-6 h-6 text-cyan-400"/>} title="Action Items">
-                <div className="overflow-x-auto">
-                    <table className="w-full text-left">
-                        <thead className="border-b border-gray-600">
-                            <tr>
-                                <th className="p-2 text-gray-300 font-semibold">Task</th>
-                                <th className="p-2 text-gray-300 font-semibold">Assigned To</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {notes.actionItems.map((item, i) => (
-                                <tr key={i} className="border-b border-gray-700">
-                                    <td className="p-2 text-gray-300">{item.task}</td>
-                                    <td className="p-2 text-gray-400">{item.assignee}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                </div>
-            </Section>
-        )}
-
-        {notes.topics?.length > 0 && (
-            <Section icon={<ChatBubbleLeftRightIcon className="w-6 h-6 text-cyan-400"/>} title="Discussion Topics">
-                <div className="space-y-6">
-                    {notes.topics.map((topic, i) => (
-                        <div key={i} className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
-                            <h4 className="font-semibold text-lg text-gray-200 mb-2">{topic.topic}</h4>
-                            {topic.keyIdeas?.length > 0 && (
-                                <>
-                                    <h5 className="font-medium text-gray-400 mb-1">Key Ideas:</h5>
-                                    <ul className="space-y-1.5 list-disc list-inside text-gray-300 pl-2">
-                                        {topic.keyIdeas.map((idea, j) => <li key={j}>{idea}</li>)}
-                                    </ul>
-                                </>
-                            )}
-                             {topic.quotes?.length > 0 && (
-                                <div className="mt-3">
-                                    <h5 className="font-medium text-gray-400 mb-1">Notable Quotes:</h5>
-                                    <blockquote className="space-y-2">
-                                        {topic.quotes.map((q, j) => <p key={j} className="border-l-4 border-cyan-500 pl-3 italic text-gray-400">{q}</p>)}
-                                    </blockquote>
-                                </div>
-                            )}
-                        </div>
-                    ))}
-                </div>
-            </Section>
-        )}
-
-        {notes.definitions?.length > 0 && (
-            <Section icon={<BookOpenIcon className="w-6 h-6 text-cyan-400"/>} title="Key Definitions">
-                <ul className="space-y-3 text-gray-300">
-                    {notes.definitions.map((def, i) => (
-                        <li key={i}>
-                            <span className="font-semibold text-gray-200">{def.term}:</span> {def.definition}
-                        </li>
-                    ))}
-                </ul>
-            </Section>
+        {/* Stays mounted while other tabs are shown, so the conversation and a
+            question in progress survive switching tabs. */}
+        {chat && (
+          <div hidden={activeTab !== 'chat'} className="notes-controls">
+            <NoteChat
+              key={chat.noteId}
+              noteId={chat.noteId}
+              initialMessages={chat.messages}
+              provider={chat.provider}
+              recordUsage={chat.recordUsage}
+              notes={notes}
+              template={template}
+              audioBlob={audioBlob}
+              onSeek={audioUrl ? seekTo : undefined}
+              onMessagesChange={chat.onMessagesChange}
+            />
+          </div>
         )}
       </div>
     </div>
@@ -0,0 +1,120 @@
+import React, { useEffect } from 'react';
+import type { SourceAnalysers, MicSwitchEvent, Marker, MarkerType } from '../types';
+import { SILENCE_WARNING_OPTIONS_SECONDS, MARKER_TYPES } from '../constants';
+import { RecordButton } from './RecordButton';
+import { LevelMeters } from './LevelMeters';
+import { MicDeviceSelect } from './MicDeviceSelect';
+import { MarkerList } from './MarkerList';
+import { PauseIcon, PlayIcon } from './icons';
+
+interface RecordingScreenProps {
+  isPaused: boolean;
+  isAutoPaused: boolean;
+  recordingTime: number;
+  analysers: SourceAnalysers;
+  silenceWarningSeconds: number;
+  onSilenceWarningSecondsChange: (seconds: number) => void;
+  micDevices: MediaDeviceInfo[];
+  activeMicDeviceId: string | null;
+  lastMicSwitch: MicSwitchEvent | null;
+  onMicDeviceChange: (deviceId: string | null) => void;
+  markers: Marker[];
+  onAddMarker: (type: MarkerType) => void;
+  onStop: () => void;
+  onTogglePause: () => void;
+}
+
+export const RecordingScreen: React.FC<RecordingScreenProps> = ({
+  isPaused,
+  isAutoPaused,
+  recordingTime,
+  analysers,
+  silenceWarningSeconds, onSilenceWarningSecondsChange,
+  micDevices, activeMicDeviceId, lastMicSwitch, onMicDeviceChange,
+  markers, onAddMarker,
+  onStop,
+  onTogglePause,
+}) => {
+  const deviceLabel = (deviceId: string | null) =>
+    micDevices.find(device => device.deviceId === deviceId)?.label || 'the default microphone';
+
+  // Single-key shortcuts for markers, ignored while typing in a form control.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable)) return;
+      const markerType = MARKER_TYPES.find(m => m.hotkey === e.key.toLowerCase());
+      if (markerType) {
+        e.preventDefault();
+        onAddMarker(markerType.type);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onAddMarker]);
+
+  return (
+    <div className="w-full flex flex-col items-center justify-center text-center">
+      <p className="text-xl mb-4 text-gray-400 h-7">
+        {isAutoPaused ? 'Paused on silence — resumes when someone speaks' : isPaused ? 'Recording Paused' : 'Recording in progress...'}
+      </p>
+      <div className="font-mono text-6xl text-cyan-400 mb-6 tracking-wider">
+        {new Date(recordingTime * 1000).toISOString().slice(14, 19)}
+      </div>
+      <div className="flex flex-col items-center gap-4">
+        <RecordButton isRecording={true} onClick={onStop} />
+        <button
+          onClick={onTogglePause}
+          className="flex items-center gap-2 px-5 py-2.5 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 focus:ring-offset-gray-800"
+          aria-label={isPaused ? 'Resume recording' : 'Pause recording'}
+        >
+          {isPaused ? <PlayIcon className="w-5 h-5" /> : <PauseIcon className="w-5 h-5" />}
+          <span>{isPaused ? 'Resume' : 'Pause'}</span>
+        </button>
+      </div>
+      <div className="flex flex-col items-center mt-8 gap-3">
+        <div className="flex flex-wrap justify-center gap-2">
+          {MARKER_TYPES.map(({ type, label, hotkey }) => (
+            <button
+              key={type}
+              onClick={() => onAddMarker(type)}
+              className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-medium rounded-lg transition-colors duration-200"
+              aria-label={`Mark ${label.toLowerCase()} moment`}
+            >
+              {label} <kbd className="ml-1 px-1.5 text-xs text-gray-400 border border-gray-500 rounded">{hotkey.toUpperCase()}</kbd>
+            </button>
+          ))}
+        </div>
+        <MarkerList markers={markers} />
+      </div>
+      <div className="w-full flex flex-col items-center mt-8 gap-2">
+        <LevelMeters analysers={analysers} isPaused={isPaused} silenceWarningSeconds={silenceWarningSeconds} />
+        {analysers.mic && micDevices.length > 0 && (
+          <div className="w-full max-w-lg">
+            <MicDeviceSelect devices={micDevices} deviceId={activeMicDeviceId} onChange={onMicDeviceChange} />
+          </div>
+        )}
+        {lastMicSwitch && lastMicSwitch.reason !== 'manual' && (
+          <p className="text-sm text-yellow-400">
+            {lastMicSwitch.reason === 'disconnected' ? 'Microphone disconnected. ' : 'Preferred microphone reconnected. '}
+            Now recording from {deviceLabel(lastMicSwitch.deviceId)}.
+          </p>
+        )}
+        <label className="text-sm text-gray-400">
+          Warn when a source is silent for{' '}
+          <select
+            value={silenceWarningSeconds}
+            onChange={(e) => onSilenceWarningSecondsChange(Number(e.target.value))}
+            className="bg-gray-700 text-gray-200 rounded px-2 py-1 ml-1"
+          >
+            {SILENCE_WARNING_OPTIONS_SECONDS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}s</option>
+            ))}
+            <option value={0}>never</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { RecordingSession } from '../utils/db';
+import { WarningIcon, RetryIcon, TrashIcon } from './icons';
+
+interface RecoveryPromptProps {
+  session: RecordingSession;
+  isRecovering: boolean;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+export const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ session, isRecovering, onRecover, onDiscard }) => {
+  return (
+    <div className="w-full max-w-lg mb-8 p-4 bg-yellow-900/30 border border-yellow-600/60 rounded-lg text-left animate-fade-in">
+      <div className="flex items-start gap-3">
+        <WarningIcon className="w-6 h-6 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="font-semibold text-yellow-200">Unfinished recording found</p>
+          <p className="text-sm text-gray-300 mt-1">
+            A recording started {new Date(session.startedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} was
+            interrupted after <span className="font-semibold text-cyan-400">{new Date(session.durationSeconds * 1000).toISOString().slice(11, 19)}</span>.
+            You can recover it and generate notes, or discard it.
+          </p>
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={onRecover}
+              disabled={isRecovering}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md text-sm disabled:bg-gray-600 disabled:cursor-wait"
+            >
+              <RetryIcon className="w-4 h-4" />
+              {isRecovering ? 'Recovering...' : 'Recover'}
+            </button>
+            <button
+              onClick={onDiscard}
+              disabled={isRecovering}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200 text-sm"
+            >
+              <TrashIcon className="w-4 h-4" />
+              Discard
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import type { Marker } from '../types';
+import { MarkerList } from './MarkerList';
+import { SparklesIcon, TrashIcon, SoundWaveIcon, WarningIcon } from './icons';
+
+interface ReviewScreenProps {
+  importedFileName: string | null;
+  durationSeconds: number;
+  isTrimmingSilence: boolean;
+  trimmedSeconds: number | null;
+  // Long silences are cut automatically before generating, which makes the
+  // manual trim unnecessary.
+  willTrimSilence: boolean;
+  markers: Marker[];
+  onTrimSilence: () => void;
+  onGenerate: () => void;
+  onDiscard: () => void;
+  // Shown when generating would exceed, or come close to, the monthly budget.
+  budgetWarning: string | null;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+};
+
+export const ReviewScreen: React.FC<ReviewScreenProps> = ({
+  importedFileName,
+  durationSeconds,
+  isTrimmingSilence,
+  trimmedSeconds,
+  willTrimSilence,
+  markers,
+  onTrimSilence,
+  onGenerate,
+  onDiscard,
+  budgetWarning,
+}) => {
+  return (
+    <div className="text-center flex flex-col items-center animate-fade-in">
+      <h2 className="text-2xl font-semibold text-gray-100 mb-2">{importedFileName ? 'File Imported' : 'Recording Finished'}</h2>
+      <p className="text-gray-400 mb-4">
+        {importedFileName ? (
+          <><span className="font-semibold text-gray-200">{importedFileName}</span> is </>
+        ) : 'Your recording is '}
+        <span className="font-semibold text-cyan-400">{new Date(durationSeconds * 1000).toISOString().slice(14, 19)}</span> long.
+      </p>
+      {trimmedSeconds !== null && (
+        <p className="text-sm text-green-400 mb-4">
+          {trimmedSeconds > 0
+            ? `Removed ${formatDuration(trimmedSeconds)} of silence.`
+            : 'No long silences were found.'}
+        </p>
+      )}
+      {trimmedSeconds === null && willTrimSilence && (
+        <p className="text-sm text-gray-400 mb-4">Long silences will be removed before the notes are generated.</p>
+      )}
+      {markers.length > 0 && (
+        <div className="mb-4 max-w-lg">
+          <p className="text-sm text-gray-400 mb-2">Your markers will be used to highlight these moments in the notes:</p>
+          <MarkerList markers={markers} />
+        </div>
+      )}
+      <p className="text-gray-400 mb-8 max-w-md">
+        Ready to generate your notes? You can also discard this recording and start over.
+      </p>
+      <div className="flex flex-col sm:flex-row items-center gap-4">
+        <button
+          onClick={onGenerate}
+          disabled={isTrimmingSilence}
+          className="w-full sm:w-auto flex items-center justify-center gap-3 px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg transition-colors duration-200 shadow-lg text-lg focus:outline-none focus:ring-4 focus:ring-blue-400 focus:ring-opacity-50 disabled:bg-gray-600 disabled:cursor-wait"
+        >
+          <SparklesIcon className="w-6 h-6" />
+          Generate Notes
+        </button>
+        {!willTrimSilence && (
+          <button
+            onClick={onTrimSilence}
+            disabled={isTrimmingSilence}
+            className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200 disabled:cursor-wait"
+            aria-label="Remove long silent stretches from the recording"
+          >
+            <SoundWaveIcon className="w-5 h-5" />
+            {isTrimmingSilence ? 'Trimming...' : 'Trim Silence'}
+          </button>
+        )}
+        <button
+          onClick={onDiscard}
+          disabled={isTrimmingSilence}
+          className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2.5 bg-gray-600/50 hover:bg-gray-600 text-gray-200 hover:text-white font-medium rounded-lg transition-colors duration-200"
+          aria-label="Discard recording and start over"
+        >
+          <TrashIcon className="w-5 h-5" />
+          Discard
+        </button>
+      </div>
+      {budgetWarning && (
+        <p className="flex items-start gap-2 max-w-md text-left text-yellow-400 text-sm mt-4">
+          <WarningIcon className="w-5 h-5 flex-shrink-0" />
+          {budgetWarning}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import type { ProviderSettings, ProviderId, Glossary, UsageSettings, NoteTemplate, TemplateSection, TemplateSectionKind } from '../types';
+import { PROVIDER_OPTIONS } from '../utils/providers';
+import { OUTPUT_LANGUAGES, UPLOAD_THRESHOLD_BYTES } from '../constants';
+import { BUILT_IN_TEMPLATES, SECTION_KIND_LABELS, sectionKeyFromTitle, validateTemplate } from '../utils/templates';
+import { ArrowLeftIcon, CogIcon, PlusIcon, PencilIcon, TrashIcon } from './icons';
+import { GlossaryEditor } from './GlossaryEditor';
+import { UsageSettingsEditor } from './UsageSettingsEditor';
+
+interface SettingsScreenProps {
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  outputLanguage: string | null;
+  onOutputLanguageChange: (code: string | null) => void;
+  glossary: Glossary;
+  onGlossaryChange: (glossary: Glossary) => void;
+  usageSettings: UsageSettings;
+  onUsageSettingsChange: (settings: UsageSettings) => void;
+  customTemplates: NoteTemplate[];
+  onSaveTemplate: (template: NoteTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  onBack: () => void;
+}
+
+const inputClassName = "w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-300 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const newSection = (): TemplateSection => ({ key: '', title: '', kind: 'list', description: '' });
+
+const newTemplate = (): NoteTemplate => ({
+  id: `custom_${Date.now()}`,
+  name: '',
+  description: '',
+  prompt: '',
+  sections: [newSection()],
+});
+
+// Gives new sections a property key derived from their title. Existing keys are
+// kept so notes generated with an earlier version of the template still line up.
+const assignSectionKeys = (template: NoteTemplate): NoteTemplate => {
+  const keys: string[] = template.sections.filter(section => section.key).map(section => section.key);
+  const sections = template.sections.map(section => {
+    if (section.key) return section;
+    const key = sectionKeyFromTitle(section.title, keys);
+    keys.push(key);
+    return { ...section, key };
+  });
+  return { ...template, sections };
+};
+
+interface TemplateEditorProps {
+  initial: NoteTemplate;
+  onSave: (template: NoteTemplate) => void;
+  onCancel: () => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<NoteTemplate>(initial);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) =>
+    setDraft(prev => ({ ...prev, sections: prev.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)) }));
+  const removeSection = (index: number) =>
+    setDraft(prev => ({ ...prev, sections: prev.sections.filter((_, i) => i !== index) }));
+
+  const handleSave = () => {
+    const template = assignSectionKeys(draft);
+    const error = validateTemplate(template);
+    setProblem(error);
+    if (!error) onSave(template);
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-gray-700 bg-gray-800/60">
+      <Field label="Name">
+        <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Sales Call" className={inputClassName} />
+      </Field>
+      <Field label="Description">
+        <input type="text" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Shown when picking the template" className={inputClassName} />
+      </Field>
+      <Field label="Instructions">
+        <textarea
+          value={draft.prompt}
+          onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+          rows={4}
+          placeholder="Describe the kind of recording and what the notes should focus on."
+          className={inputClassName}
+        />
+      </Field>
+
+      <div className="space-y-2">
+        <span className="block text-sm font-medium text-gray-300">Sections</span>
+        {draft.sections.map((section, i) => (
+          <div key={i} className="space-y-2 p-3 rounded-lg border border-gray-700">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={section.title}
+                onChange={(e) => updateSection(i, { title: e.target.value })}
+                placeholder="Section title"
+                aria-label="Section title"
+                className={inputClassName}
+              />
+              <select
+                value={section.kind}
+                onChange={(e) => updateSection(i, { kind: e.target.value as TemplateSectionKind })}
+                aria-label="Section type"
+                className={`${inputClassName} max-w-[45%]`}
+              >
+                {Object.entries(SECTION_KIND_LABELS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeSection(i)}
+                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                aria-label="Remove section"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+            <input
+              type="text"
+              value={section.description}
+              onChange={(e) => updateSection(i, { description: e.target.value })}
+              placeholder="What the AI should put in this section"
+              aria-label="Section description"
+              className={inputClassName}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input type="checkbox" checked={!!section.optional} onChange={(e) => updateSection(i, { optional: e.target.checked })} />
+              Optional (the AI may leave it empty)
+            </label>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, sections: [...prev.sections, newSection()] }))}
+          className="flex items-center gap-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add section
+        </button>
+      </div>
+
+      {problem && <p className="text-sm text-red-400">{problem}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm">
+          Save Template
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ providerSettings, onProviderSettingsChange, outputLanguage, onOutputLanguageChange, glossary, onGlossaryChange, usageSettings, onUsageSettingsChange, customTemplates, onSaveTemplate, onDeleteTemplate, onBack }) => {
+  const [editingTemplate, setEditingTemplate] = useState<NoteTemplate | null>(null);
+  const setProviderId = (providerId: ProviderId) => onProviderSettingsChange({ ...providerSettings, providerId });
+  const setOpenAi = (changes: Partial<ProviderSettings['openAi']>) =>
+    onProviderSettingsChange({ ...providerSettings, openAi: { ...providerSettings.openAi, ...changes } });
+
+  return (
+    <div className="w-full text-left animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+          <CogIcon className="w-8 h-8 text-cyan-400" />
+          Settings
+        </h2>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md"
+          aria-label="Back to new recording"
+        >
+          <ArrowLeftIcon className="w-5 h-5" />
+          Done
+        </button>
+      </div>
+
+      <section className="space-y-4">
+        <h3 className="text-xl font-semibold text-cyan-400">AI Provider</h3>
+        <div className="space-y-2" role="radiogroup" aria-label="AI provider">
+          {PROVIDER_OPTIONS.map(option => (
+            <label
+              key={option.id}
+              className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-all duration-200 ${providerSettings.providerId === option.id ? 'bg-blue-900/50 border-blue-500' : 'bg-gray-800/60 border-gray-700 hover:border-gray-600'}`}
+            >
+              <input
+                type="radio"
+                name="provider"
+                value={option.id}
+                checked={providerSettings.providerId === option.id}
+                onChange={() => setProviderId(option.id)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-semibold text-gray-100">{option.label}</span>
+                <span className="block text-sm text-gray-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {providerSettings.providerId === 'gemini' && (
+          <Field label="Model">
+            <input
+              type="text"
+              value={providerSettings.geminiModel}
+              onChange={(e) => onProviderSettingsChange({ ...providerSettings, geminiModel: e.target.value })}
+              className={inputClassName}
+            />
+          </Field>
+        )}
+
+        {providerSettings.providerId === 'openai' && (
+          <div className="space-y-3">
+            <Field label="Base URL">
+              <input
+                type="url"
+                value={providerSettings.openAi.baseUrl}
+                onChange={(e) => setOpenAi({ baseUrl: e.target.value })}
+                placeholder="https://gateway.example.com/v1"
+                className={inputClassName}
+              />
+            </Field>
+            <Field label="Model">
+              <input
+                type="text"
+                value={providerSettings.openAi.model}
+                onChange={(e) => setOpenAi({ model: e.target.value })}
+                className={inputClassName}
+              />
+            </Field>
+            <Field label="API key">
+              <input
+                type="password"
+                value={providerSettings.openAi.apiKey}
+                onChange={(e) => setOpenAi({ apiKey: e.target.value })}
+                placeholder="Optional"
+                autoComplete="off"
+                className={inputClassName}
+              />
+            </Field>
+            <p className="text-xs text-gray-500">The key is stored in this browser only and sent directly to the URL above.</p>
+          </div>
+        )}
+
+        {providerSettings.providerId !== 'openai' && (
+          <div className="space-y-1">
+            <Field label="Upload endpoint">
+              <input
+                type="url"
+                value={providerSettings.uploadEndpoint}
+                onChange={(e) => onProviderSettingsChange({ ...providerSettings, uploadEndpoint: e.target.value })}
+                placeholder={providerSettings.providerId === 'gemini' ? 'Gemini API' : 'None (audio is never uploaded)'}
+                className={inputClassName}
+              />
+            </Field>
+            <p className="text-xs text-gray-500">
+              Recordings over {Math.round(UPLOAD_THRESHOLD_BYTES / (1024 * 1024))} MB are uploaded here first and deleted after generation.{' '}
+              {providerSettings.providerId === 'gemini'
+                ? 'Leave empty unless you use a proxy that forwards uploads to the Gemini API with its own key: Gemini can only read files stored by Gemini, and your API key is not sent to other servers.'
+                : <>Any server speaking the Gemini resumable upload protocol works, e.g. the stand-in started by <code>npm run upload-server</code>.</>}
+            </p>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4 mt-10">
+        <h3 className="text-xl font-semibold text-cyan-400">Output Language</h3>
+        <Field label="Write notes in">
+          <select
+            value={outputLanguage ?? ''}
+            onChange={(e) => onOutputLanguageChange(e.target.value || null)}
+            className={inputClassName}
+          >
+            <option value="">The language spoken in the recording</option>
+            {OUTPUT_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.nativeName} ({language.name})</option>
+            ))}
+          </select>
+        </Field>
+        <p className="text-xs text-gray-500">Transcripts always stay in the spoken language.</p>
+      </section>
+
+      <section className="space-y-4 mt-10">
+        <h3 className="text-xl font-semibold text-cyan-400">Glossary</h3>
+        <p className="text-sm text-gray-400">
+          Names and jargon the AI should recognize. They are included in every generation, and new notes are checked against them afterwards.
+        </p>
+        <GlossaryEditor glossary={glossary} onChange={onGlossaryChange} />
+      </section>
+
+      <section className="space-y-4 mt-10">
+        <h3 className="text-xl font-semibold text-cyan-400">Usage & Costs</h3>
+        <UsageSettingsEditor settings={usageSettings} onChange={onUsageSettingsChange} />
+      </section>
+
+      <section className="space-y-4 mt-10">
+        <h3 className="text-xl font-semibold text-cyan-400">Note Templates</h3>
+        <p className="text-sm text-gray-400">
+          Built-in templates: {BUILT_IN_TEMPLATES.map(template => template.name).join(', ')}. Create your own to control the instructions and sections of your notes.
+        </p>
+        {customTemplates.length > 0 && (
+          <ul className="space-y-2">
+            {customTemplates.map(template => (
+              <li key={template.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-700 bg-gray-800/60">
+                <span>
+                  <span className="block font-semibold text-gray-100">{template.name}</span>
+                  <span className="block text-sm text-gray-400">{template.sections.map(section => section.title).join(' · ')}</span>
+                </span>
+                <span className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => setEditingTemplate(template)}
+                    className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <PencilIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => window.confirm(`Delete the "${template.name}" template?`) && onDeleteTemplate(template.id)}
+                    className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {editingTemplate ? (
+          <TemplateEditor
+            key={editingTemplate.id}
+            initial={editingTemplate}
+            onSave={(template) => {
+              onSaveTemplate(template);
+              setEditingTemplate(null);
+            }}
+            onCancel={() => setEditingTemplate(null)}
+          />
+        ) : (
+          <button
+            onClick={() => setEditingTemplate(newTemplate())}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors duration-200 text-sm"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New Template
+          </button>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatPlaybackTime } from './MarkerList';
+
+const SPEAKER_COLORS = ['text-cyan-400', 'text-purple-400', 'text-green-400', 'text-yellow-400', 'text-pink-400', 'text-orange-400'];
+
+interface TranscriptViewProps {
+  transcript: TranscriptSegment[];
+  // Playback position of the note's audio, used to highlight the current turn.
+  currentTime: number;
+  onSeek?: (seconds: number) => void;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript, currentTime, onSeek }) => {
+  const activeRef = useRef<HTMLLIElement>(null);
+  const speakers = [...new Set(transcript.map(segment => segment.speaker))];
+  const activeIndex = transcript.findIndex(segment => currentTime >= segment.startSeconds && currentTime < segment.endSeconds);
+
+  // Keep the highlighted turn in view while the audio plays.
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  if (transcript.length === 0) {
+    return <p className="text-gray-400">No transcript is available for this note.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {transcript.map((segment, i) => {
+        const isActive = i === activeIndex;
+        const color = SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length];
+        return (
+          <li
+            key={i}
+            ref={isActive ? activeRef : undefined}
+            onClick={onSeek ? () => onSeek(segment.startSeconds) : undefined}
+            className={`flex gap-4 p-2 rounded-lg transition-colors duration-200 ${isActive ? 'bg-blue-900/50' : ''} ${onSeek ? 'cursor-pointer hover:bg-gray-700/50' : ''}`}
+          >
+            <span className="font-mono text-sm text-gray-500 pt-0.5 w-16 flex-shrink-0">{formatPlaybackTime(segment.startSeconds)}</span>
+            <div className="min-w-0">
+              <span className={`block text-sm font-semibold ${color}`}>{segment.speaker}</span>
+              <p className="text-gray-300 leading-relaxed">{segment.text}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
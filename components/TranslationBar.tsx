@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type { NoteTranslation } from '../types';
+import { OUTPUT_LANGUAGES } from '../constants';
+import { findLanguage } from '../utils/translation';
+import { classifyError, GENERATION_ERROR_DETAILS } from '../utils/generationErrors';
+
+interface TranslationBarProps {
+  translations: NoteTranslation[];
+  // Language code of the translation being shown, or null for the original.
+  activeLanguage: string | null;
+  onSelectLanguage: (code: string | null) => void;
+  onTranslate: (code: string) => Promise<void>;
+}
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1 text-sm font-semibold rounded-full border transition-colors duration-200 ${active ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300' : 'border-gray-600 text-gray-400 hover:text-gray-200'}`;
+
+export const TranslationBar: React.FC<TranslationBarProps> = ({ translations, activeLanguage, onSelectLanguage, onTranslate }) => {
+  const [targetLanguage, setTargetLanguage] = useState(OUTPUT_LANGUAGES[0].code);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTranslate = async () => {
+    setIsTranslating(true);
+    setError(null);
+    try {
+      await onTranslate(targetLanguage);
+      onSelectLanguage(targetLanguage);
+    } catch (err) {
+      console.error("Failed to translate notes:", err);
+      const { kind, message } = classifyError(err);
+      setError(`${GENERATION_ERROR_DETAILS[kind].title}: ${message}`);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <div className="notes-controls mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {translations.length > 0 && (
+          <>
+            <button onClick={() => onSelectLanguage(null)} className={chipClassName(activeLanguage === null)}>Original</button>
+            {translations.map(translation => (
+              <button
+                key={translation.language}
+                onClick={() => onSelectLanguage(translation.language)}
+                className={chipClassName(activeLanguage === translation.language)}
+              >
+                {findLanguage(translation.language)?.nativeName ?? translation.language}
+              </button>
+            ))}
+          </>
+        )}
+        <span className="flex items-center gap-2 ml-auto">
+          <select
+            value={targetLanguage}
+            onChange={(e) => setTargetLanguage(e.target.value)}
+            disabled={isTranslating}
+            className="bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Translation language"
+          >
+            {OUTPUT_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.nativeName}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleTranslate}
+            disabled={isTranslating}
+            className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm disabled:opacity-60 disabled:cursor-wait"
+          >
+            {isTranslating ? 'Translating...' : 'Translate'}
+          </button>
+        </span>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { ModelPrice, UsageSettings } from '../types';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface UsageSettingsEditorProps {
+  settings: UsageSettings;
+  onChange: (settings: UsageSettings) => void;
+}
+
+const inputClassName = "w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const parseAmount = (text: string) => Math.max(0, Number(text) || 0);
+
+export const UsageSettingsEditor: React.FC<UsageSettingsEditorProps> = ({ settings, onChange }) => {
+  const { prices, monthlyBudgetUsd } = settings;
+  const setPrices = (next: ModelPrice[]) => onChange({ ...settings, prices: next });
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+    setPrices(prices.map((price, i) => (i === index ? { ...price, ...changes } : price)));
+
+  return (
+    <div className="space-y-6">
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-300 mb-1">Monthly budget (USD)</span>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={monthlyBudgetUsd ?? ''}
+          onChange={(e) => onChange({ ...settings, monthlyBudgetUsd: e.target.value === '' ? null : parseAmount(e.target.value) })}
+          placeholder="No budget"
+          className={inputClassName}
+        />
+        <span className="block text-xs text-gray-500 mt-1">You are warned before generating notes when this month's spending gets close to the budget.</span>
+      </label>
+
+      <div className="space-y-2">
+        <div>
+          <span className="block text-sm font-medium text-gray-300">Prices</span>
+          <span className="block text-xs text-gray-500">US dollars per million tokens, used to estimate the cost of each note.</span>
+        </div>
+        <div className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 text-xs text-gray-400">
+          <span>Model</span>
+          <span>Input</span>
+          <span>Output</span>
+          <span className="w-9" />
+        </div>
+        {prices.map((price, i) => (
+          <div key={i} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2">
+            <input
+              type="text"
+              value={price.model}
+              onChange={(e) => updatePrice(i, { model: e.target.value })}
+              placeholder="Model name"
+              aria-label="Model name"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={price.inputPerMillion}
+              onChange={(e) => updatePrice(i, { inputPerMillion: parseAmount(e.target.value) })}
+              aria-label={`Input price for ${price.model}`}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={price.outputPerMillion}
+              onChange={(e) => updatePrice(i, { outputPerMillion: parseAmount(e.target.value) })}
+              aria-label={`Output price for ${price.model}`}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => setPrices(prices.filter((_, j) => j !== i))}
+              className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+              aria-label={`Remove price for ${price.model}`}
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setPrices([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+          className="flex items-center gap-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import type { UsageRecord } from '../types';
+import { aggregateUsage, formatCost, spentThisMonth, UsagePeriod } from '../utils/usage';
+
+interface UsageSummaryProps {
+  usages: UsageRecord[];
+  monthlyBudgetUsd: number | null;
+}
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = { day: 'Day', week: 'Week', month: 'Month' };
+
+// Most recent periods listed in the table.
+const PERIODS_SHOWN = 6;
+
+const formatPeriod = (start: Date, period: UsagePeriod) => {
+  switch (period) {
+    case 'day':
+      return start.toLocaleDateString(undefined, { dateStyle: 'medium' });
+    case 'week':
+      return `Week of ${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+    case 'month':
+      return start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+};
+
+const formatAudio = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1 text-xs font-semibold rounded-full border transition-colors duration-200 ${active ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300' : 'border-gray-600 text-gray-400 hover:text-gray-200'}`;
+
+export const UsageSummary: React.FC<UsageSummaryProps> = ({ usages, monthlyBudgetUsd }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const buckets = aggregateUsage(usages, period).slice(0, PERIODS_SHOWN);
+  const spent = spentThisMonth(usages);
+  const budgetPercent = monthlyBudgetUsd ? Math.min(100, (spent / monthlyBudgetUsd) * 100) : 0;
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800/70 border border-gray-700 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-gray-300">
+        <span>
+          This month: <span className="font-semibold text-gray-100">{formatCost(spent)}</span>
+          {monthlyBudgetUsd !== null && <> of {formatCost(monthlyBudgetUsd)} budget</>}
+        </span>
+        <span className="flex gap-1" role="group" aria-label="Usage period">
+          {(Object.keys(PERIOD_LABELS) as UsagePeriod[]).map(p => (
+            <button key={p} onClick={() => setPeriod(p)} className={chipClassName(period === p)}>{PERIOD_LABELS[p]}</button>
+          ))}
+        </span>
+      </div>
+      {monthlyBudgetUsd !== null && (
+        <div className="mt-3 h-2 w-full bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${budgetPercent >= 100 ? 'bg-red-500' : budgetPercent >= 80 ? 'bg-yellow-500' : 'bg-cyan-500'}`}
+            style={{ width: `${budgetPercent}%` }}
+          />
+        </div>
+      )}
+      <table className="w-full mt-3 text-left">
+        <thead>
+          <tr className="text-xs text-gray-400 border-b border-gray-700">
+            <th className="py-1 font-medium">{PERIOD_LABELS[period]}</th>
+            <th className="py-1 font-medium text-right">Notes</th>
+            <th className="py-1 font-medium text-right">Audio</th>
+            <th className="py-1 font-medium text-right">Tokens in / out</th>
+            <th className="py-1 font-medium text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map(bucket => (
+            <tr key={bucket.start.getTime()} className="text-gray-300 border-b border-gray-700/50">
+              <td className="py-1">{formatPeriod(bucket.start, period)}</td>
+              <td className="py-1 text-right">{bucket.generations}</td>
+              <td className="py-1 text-right">{formatAudio(bucket.audioSeconds)}</td>
+              <td className="py-1 text-right">{bucket.inputTokens.toLocaleString()} / {bucket.outputTokens.toLocaleString()}</td>
+              <td className="py-1 text-right" title={bucket.hasUnpricedUsage ? 'Some models have no price in Settings' : undefined}>
+                {formatCost(bucket.costUsd)}{bucket.hasUnpricedUsage && '+'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
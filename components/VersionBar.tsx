@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import type { NoteTemplate } from '../types';
+import type { NoteVersion } from '../utils/db';
+import { RetryIcon } from './icons';
+
+interface VersionBarProps {
+  versions: NoteVersion[];
+  activeVersionId: string;
+  primaryVersionId: string;
+  onSelectVersion: (versionId: string) => void;
+  onMakePrimary: (versionId: string) => void;
+  templates: NoteTemplate[];
+  // The template the next regeneration starts with.
+  defaultTemplate: NoteTemplate;
+  // Omitted when the audio wasn't stored, since there's nothing to regenerate from.
+  onRegenerate?: (template: NoteTemplate) => void;
+  modelLabel: string;
+}
+
+const selectClassName = "bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const versionLabel = (version: NoteVersion, index: number, isPrimary: boolean) => {
+  const details = [
+    new Date(version.createdAt).toLocaleString(),
+    version.template?.name,
+    version.model,
+  ].filter(Boolean).join(' · ');
+  return `Version ${index + 1}${isPrimary ? ' (primary)' : ''} — ${details}`;
+};
+
+export const VersionBar: React.FC<VersionBarProps> = ({
+  versions, activeVersionId, primaryVersionId, onSelectVersion, onMakePrimary,
+  templates, defaultTemplate, onRegenerate, modelLabel,
+}) => {
+  const [templateId, setTemplateId] = useState(defaultTemplate.id);
+  const template = templates.find(t => t.id === templateId) ?? defaultTemplate;
+
+  return (
+    <div className="notes-controls flex flex-col gap-3 mb-6 p-3 rounded-lg border border-gray-700 bg-gray-800/60">
+      {versions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={activeVersionId}
+            onChange={(e) => onSelectVersion(e.target.value)}
+            className={`${selectClassName} flex-1 min-w-0`}
+            aria-label="Notes version"
+          >
+            {versions.map((version, i) => (
+              <option key={version.id} value={version.id}>{versionLabel(version, i, version.id === primaryVersionId)}</option>
+            ))}
+          </select>
+          {activeVersionId !== primaryVersionId && (
+            <button
+              onClick={() => onMakePrimary(activeVersionId)}
+              className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm"
+            >
+              Make Primary
+            </button>
+          )}
+        </div>
+      )}
+      {onRegenerate && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={template.id}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className={`${selectClassName} flex-1 min-w-0`}
+            aria-label="Template for regeneration"
+          >
+            {templates.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onRegenerate(template)}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 text-sm"
+            title={`Run the stored audio through ${modelLabel} again`}
+          >
+            <RetryIcon className="w-4 h-4" />
+            Regenerate
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 
 import React from 'react';
-import { MicIcon, ScreenDesktopIcon, SparklesIcon } from './icons';
+import type { NoteTemplate } from '../types';
+import { MicIcon, ScreenDesktopIcon, SparklesIcon, PauseIcon, SoundWaveIcon, WarningIcon } from './icons';
+import { FileImport } from './FileImport';
+import { MicDeviceSelect } from './MicDeviceSelect';
 
 interface ToggleProps {
   id: string;
@@ -45,8 +48,20 @@ interface WelcomeScreenProps {
   onNoiseReductionChange: (enabled: boolean) => void;
   recordMic: boolean;
   onRecordMicChange: (enabled: boolean) => void;
+  micDevices: MediaDeviceInfo[];
+  micDeviceId: string | null;
+  onMicDeviceChange: (deviceId: string | null) => void;
   recordSystem: boolean;
   onRecordSystemChange: (enabled: boolean) => void;
+  autoPause: boolean;
+  onAutoPauseChange: (enabled: boolean) => void;
+  autoTrimSilence: boolean;
+  onAutoTrimSilenceChange: (enabled: boolean) => void;
+  onImportFile: (file: File) => void;
+  storageWarning: string | null;
+  templates: NoteTemplate[];
+  selectedTemplate: NoteTemplate;
+  onTemplateChange: (templateId: string) => void;
 }
 
 export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ 
@@ -54,7 +69,13 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
   isRequesting,
   noiseReduction, onNoiseReductionChange,
   recordMic, onRecordMicChange,
-  recordSystem, onRecordSystemChange
+  micDevices, micDeviceId, onMicDeviceChange,
+  recordSystem, onRecordSystemChange,
+  autoPause, onAutoPauseChange,
+  autoTrimSilence, onAutoTrimSilenceChange,
+  onImportFile,
+  storageWarning,
+  templates, selectedTemplate, onTemplateChange,
 }) => {
   const canStart = recordMic || recordSystem;
 
@@ -75,6 +96,14 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
           onChange={onRecordMicChange}
           disabled={isRequesting}
         />
+        {recordMic && micDevices.length > 0 && (
+          <MicDeviceSelect
+            devices={micDevices}
+            deviceId={micDeviceId}
+            onChange={onMicDeviceChange}
+            disabled={isRequesting}
+          />
+        )}
         <SourceToggle
           id="record-system-toggle"
           label="Record Screen Audio"
@@ -93,6 +122,40 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
           onChange={onNoiseReductionChange}
           disabled={isRequesting || !recordMic}
         />
+        <SourceToggle
+          id="auto-pause-toggle"
+          label="Auto-Pause on Silence"
+          description="Pause during breaks and resume when speech returns."
+          icon={<PauseIcon className="w-6 h-6" />}
+          enabled={autoPause}
+          onChange={onAutoPauseChange}
+          disabled={isRequesting}
+        />
+        <SourceToggle
+          id="auto-trim-silence-toggle"
+          label="Trim Silence"
+          description="Cut long silences before generating notes."
+          icon={<SoundWaveIcon className="w-6 h-6" />}
+          enabled={autoTrimSilence}
+          onChange={onAutoTrimSilenceChange}
+          disabled={isRequesting}
+        />
+      </div>
+
+      <div className="mt-6 w-full text-left">
+        <label htmlFor="note-template-select" className="block text-sm font-medium text-gray-300 mb-1">Note Template</label>
+        <select
+          id="note-template-select"
+          value={selectedTemplate.id}
+          onChange={(e) => onTemplateChange(e.target.value)}
+          disabled={isRequesting}
+          className="w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-400 mt-1">{selectedTemplate.description}</p>
       </div>
 
       <div className="mt-8 w-full">
@@ -118,7 +181,21 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
         {!canStart && !isRequesting && (
           <p className="text-red-400 text-sm mt-2">Please select at least one audio source.</p>
         )}
+        {storageWarning && (
+          <p className="flex items-start gap-2 text-left text-yellow-400 text-sm mt-3">
+            <WarningIcon className="w-5 h-5 flex-shrink-0" />
+            {storageWarning}
+          </p>
+        )}
       </div>
+
+      <div className="flex items-center w-full my-6 text-gray-500 text-sm">
+        <div className="flex-1 border-t border-gray-700"></div>
+        <span className="px-3">or import an existing recording</span>
+        <div className="flex-1 border-t border-gray-700"></div>
+      </div>
+
+      <FileImport onImportFile={onImportFile} disabled={isRequesting} />
     </div>
   );
 };
@@ -1,89 +1,332 @@
 import { Type } from "@google/genai";
+import type { MarkerType, ModelPrice } from './types';
 
 export const GEMINI_MODEL_NAME = "gemini-2.5-flash";
 
-export const GEMINI_PROMPT = `You are a world-class AI assistant specializing in analyzing audio recordings of meetings and discussions.
-Your task is to transcribe and structure the content into a detailed, clear, and actionable summary.
-Please identify speakers, topics, key decisions, and action items.
+// Gemini models offered as alternatives when a generation fails.
+export const GEMINI_MODEL_OPTIONS = ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"];
+
+// Appended to every template's prompt. The template describes the recording type
+// and which sections to extract; this covers the transcript and output format.
+export const GEMINI_OUTPUT_INSTRUCTIONS = `Also produce a complete, verbatim transcript split into speaker turns, with start and end times in seconds from the beginning of the audio.
+Rate the overall sentiment of the discussion about each main topic.
 
 Analyze the following audio and generate a JSON object with the specified schema.
 The output must be a valid JSON object. Do not include markdown formatting like \`\`\`json.
 If some information (e.g., participants, definitions) is not present in the audio, provide an empty array or reasonable defaults.
 `;
 
-export const GEMINI_RESPONSE_SCHEMA = {
+// Item schemas for the structured section kinds templates can use.
+export const PARTICIPANT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "The speaker's name." },
+    role: { type: Type.STRING, description: "The speaker's role or title (if available)." },
+  },
+  required: ["name"],
+};
+
+export const TOPIC_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    topic: { type: Type.STRING, description: "The name of the topic discussed." },
+    keyIdeas: {
+      type: Type.ARRAY,
+      description: "A list of key ideas or points made within this topic.",
+      items: { type: Type.STRING },
+    },
+    quotes: {
+      type: Type.ARRAY,
+      description: "A list of direct, insightful quotes from this topic.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["topic", "keyIdeas"],
+};
+
+export const DEFINITION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    term: { type: Type.STRING, description: "The term being defined." },
+    definition: { type: Type.STRING, description: "The definition of the term." },
+  },
+  required: ["term", "definition"],
+};
+
+export const ACTION_ITEM_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    task: { type: Type.STRING, description: "The description of the action item." },
+    assignee: { type: Type.STRING, description: "The person or team assigned to the task." },
+  },
+  required: ["task", "assignee"],
+};
+
+export const TRANSCRIPT_SCHEMA = {
+  type: Type.ARRAY,
+  description: "The complete verbatim transcript, split into consecutive speaker turns in chronological order.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      speaker: { type: Type.STRING, description: "The speaker's name if known, otherwise a consistent label such as 'Speaker 1'." },
+      startSeconds: { type: Type.NUMBER, description: "When the turn starts, in seconds from the beginning of the audio." },
+      endSeconds: { type: Type.NUMBER, description: "When the turn ends, in seconds from the beginning of the audio." },
+      text: { type: Type.STRING, description: "Exactly what was said in this turn." },
+    },
+    required: ["speaker", "startSeconds", "endSeconds", "text"],
+  },
+};
+
+export const TOPIC_SENTIMENT_SCHEMA = {
+  type: Type.ARRAY,
+  description: "The sentiment of the discussion about each main topic.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      topic: { type: Type.STRING, description: "A short name for the topic." },
+      sentiment: { type: Type.STRING, enum: ["positive", "neutral", "negative", "mixed"], description: "The overall tone of the discussion about the topic." },
+      score: { type: Type.NUMBER, description: "The sentiment from -1 (very negative) to 1 (very positive)." },
+    },
+    required: ["topic", "sentiment", "score"],
+  },
+};
+
+export const GEMINI_REPAIR_PROMPT = `A previous response was supposed to be a JSON object matching the given schema, but it failed validation.
+Return a corrected JSON object that matches the schema. Keep all of the original content; only fix the structure.
+Use empty arrays for list fields that have no content.
+`;
+
+// Transient failures (rate limits, server errors, dropped connections) are retried
+// with exponential backoff starting at this delay.
+export const GENERATION_MAX_RETRIES = 3;
+export const GENERATION_RETRY_BASE_DELAY_MS = 2000;
+
+// Audio formats accepted by the file import, keyed by file extension.
+// The value is the MIME type sent to the model alongside the audio data.
+export const SUPPORTED_IMPORT_FORMATS: Record<string, string> = {
+  mp3: 'audio/mp3',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
+// Larger files are split into segments before upload (see below), which are
+// decoded one at a time, so this only guards against files too large to hold in
+// the browser. Formats that can't be cut into segments (MP3, M4A, Ogg) are still
+// decoded whole at 16 kHz, which takes about 0.5 GB per hour of stereo audio.
+export const MAX_IMPORT_FILE_SIZE_MB = 200;
+
+// Inline audio is sent as base64 in a single request, which the API caps at ~20MB.
+// Base64 inflates data by a third, so blobs above this size are segmented.
+export const MAX_INLINE_AUDIO_BYTES = 15 * 1024 * 1024;
+
+// Minimum time between previews of notes that are still streaming in. Each
+// preview re-parses the whole response so far.
+export const STREAM_PREVIEW_INTERVAL_MS = 250;
+
+// Above this size, audio is uploaded and referenced by providers that support
+// file uploads, instead of being base64-encoded into the request.
+export const UPLOAD_THRESHOLD_BYTES = 8 * 1024 * 1024;
+
+// Size of each resumable upload request. The Gemini upload API requires a
+// multiple of 256 KB.
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+// Uploads are processed before they can be used; how often to check on them.
+export const UPLOAD_PROCESSING_POLL_MS = 2000;
+
+export const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+// How often the recorder flushes captured audio to IndexedDB while recording.
+// This bounds how much audio is lost if the tab crashes or is reloaded.
+export const RECORDING_CHUNK_INTERVAL_MS = 5000;
+
+// Interrupted recording sessions not written for this long, other than the one
+// offered for recovery, are deleted on startup.
+export const STALE_RECORDING_SESSION_MS = 10 * 60 * 1000;
+// How often a running recording marks its session as written, so that it isn't
+// taken for stale while paused, when no chunks arrive.
+export const RECORDING_SESSION_HEARTBEAT_MS = 60 * 1000;
+
+// Recordings longer than this are split into overlapping segments that are
+// processed one at a time and then merged, to stay within request and output limits.
+export const LONG_RECORDING_THRESHOLD_SECONDS = 15 * 60;
+export const SEGMENT_DURATION_SECONDS = 5 * 60;
+export const SEGMENT_OVERLAP_SECONDS = 15;
+// Segments are re-encoded as 16kHz mono WAV, which is plenty for speech.
+export const SEGMENT_SAMPLE_RATE = 16000;
+
+export const GEMINI_MERGE_PROMPT = `You are given the titles and summaries of consecutive, slightly overlapping parts of one long recording, in order.
+Write a single concise title for the whole recording and one comprehensive summary that covers the entire discussion and its key takeaways.
+Do not mention that the recording was split into parts.
+`;
+
+export const GEMINI_MERGE_SCHEMA = {
   type: Type.OBJECT,
   properties: {
     title: {
       type: Type.STRING,
-      description: "A concise and descriptive title for the meeting or recording.",
+      description: "A concise and descriptive title for the whole recording.",
     },
     summary: {
       type: Type.STRING,
       description: "A comprehensive final summary of the entire discussion and its key takeaways.",
     },
-    participants: {
-      type: Type.ARRAY,
-      description: "A list of people who spoke, including their name and role if mentioned.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING, description: "The speaker's name." },
-          role: { type: Type.STRING, description: "The speaker's role or title (if available)." },
-        },
-        required: ["name"],
-      },
+  },
+  required: ["title", "summary"],
+};
+
+export const GEMINI_CHAT_PROMPT = `You are answering a user's follow-up questions about a recording they made.
+You are given the notes generated from the recording, its timestamped transcript, the conversation so far and, when available, the audio itself.
+Answer the latest question accurately and concisely, using only what was said in the recording. If the recording doesn't answer it, say so.
+Point to the places in the recording that support your answer: name the relevant topic or quote, and give the time in seconds where it was said.
+`;
+
+export const CHAT_ANSWER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: {
+      type: Type.STRING,
+      description: "The answer to the latest question, in plain text.",
     },
-    topics: {
+    references: {
       type: Type.ARRAY,
-      description: "A breakdown of the main discussion points, summarized by topic.",
+      description: "Places in the recording that support the answer, in chronological order.",
       items: {
         type: Type.OBJECT,
         properties: {
-          topic: { type: Type.STRING, description: "The name of the topic discussed." },
-          keyIdeas: {
-            type: Type.ARRAY,
-            description: "A list of key ideas or points made within this topic.",
-            items: { type: Type.STRING },
-          },
-          quotes: {
-            type: Type.ARRAY,
-            description: "A list of direct, insightful quotes from this topic.",
-            items: { type: Type.STRING },
-          },
+          label: { type: Type.STRING, description: "The topic name or a short quote that the answer relies on." },
+          startSeconds: { type: Type.NUMBER, nullable: true, description: "When it was said, in seconds from the start of the recording, or null if unknown." },
         },
-        required: ["topic", "keyIdeas"],
+        required: ["label"],
       },
     },
-    definitions: {
-        type: Type.ARRAY,
-        description: "A list of important terms and their definitions as discussed in the audio.",
-        items: {
-            type: Type.OBJECT,
-            properties: {
-                term: { type: Type.STRING, description: "The term being defined." },
-                definition: { type: Type.STRING, description: "The definition of the term." },
-            },
-            required: ["term", "definition"],
-        },
-    },
-    decisions: {
-      type: Type.ARRAY,
-      description: "A list of clear, final decisions that were made during the discussion.",
-      items: { type: Type.STRING },
+  },
+  required: ["answer", "references"],
+};
+
+// Earlier messages sent along with a chat question, to keep requests small.
+export const CHAT_HISTORY_MESSAGES = 10;
+
+export const GEMINI_LIBRARY_PROMPT = `You are answering a question about a user's library of recorded meetings and notes.
+You are given numbered excerpts from the notes that are most relevant to the question, each with the recording's title and date.
+Answer using only these excerpts. Cite every claim with the number of the excerpt it comes from in square brackets, e.g. [2].
+If the excerpts don't answer the question, say so rather than guessing.
+`;
+
+export const LIBRARY_ANSWER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: {
+      type: Type.STRING,
+      description: "The answer in plain text, citing excerpts by number in square brackets.",
     },
-    actionItems: {
+    sources: {
       type: Type.ARRAY,
-      description: "A list of action items or follow-ups, with the task and the person assigned.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          task: { type: Type.STRING, description: "The description of the action item." },
-          assignee: { type: Type.STRING, description: "The person or team assigned to the task." },
-        },
-        required: ["task", "assignee"],
-      },
+      description: "The numbers of the excerpts cited in the answer.",
+      items: { type: Type.INTEGER },
     },
   },
-  required: ["title", "summary", "participants", "topics", "decisions", "actionItems"],
+  required: ["answer", "sources"],
 };
+
+// Languages notes can be written in or translated to. `name` is used in prompts.
+export const OUTPUT_LANGUAGES: { code: string; name: string; nativeName: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'zh', name: 'Chinese (Simplified)', nativeName: '简体中文' },
+];
+
+export const GEMINI_TRANSLATE_PROMPT = `Translate the following meeting notes, given as a JSON object, into the requested language.
+Translate every text value, including the title, but keep people's names, product names and quotes' meaning intact.
+Return a JSON object with exactly the same structure and the same number of list items.
+`;
+
+// Number of passages retrieved from the library for a question.
+export const LIBRARY_SEARCH_RESULTS = 8;
+// Length of the transcript stretches indexed as one passage.
+export const SEARCH_TRANSCRIPT_CHUNK_SECONDS = 90;
+
+// RMS level below which an input is treated as silent by the level meters.
+export const SILENCE_RMS_THRESHOLD = 0.005;
+// Choices for how long a source may stay silent before the recording screen warns about it.
+export const SILENCE_WARNING_OPTIONS_SECONDS = [10, 20, 30, 60];
+export const DEFAULT_SILENCE_WARNING_SECONDS = 20;
+
+// Auto-pause: the recorder pauses after this much continuous silence and resumes
+// as soon as the level rises above the voice activity threshold again.
+export const AUTO_PAUSE_SILENCE_SECONDS = 8;
+export const VOICE_ACTIVITY_RMS_THRESHOLD = 0.01;
+
+// Post-recording trim: silent stretches longer than this are cut, keeping a
+// little padding on each side so speech isn't clipped.
+export const TRIM_MIN_SILENCE_SECONDS = 3;
+export const TRIM_PADDING_SECONDS = 0.5;
+// Silence is only cut automatically from recordings up to this long, since
+// trimming decodes the whole recording in memory. Longer ones are sent as they are.
+export const AUTO_TRIM_MAX_SECONDS = 2 * 60 * 60;
+
+// Conversation analytics: pauses at least this long don't count as talk time,
+// and a turn that starts this long before the previous speaker's turn ends counts
+// as an interruption.
+export const ANALYTICS_MIN_PAUSE_SECONDS = 0.5;
+export const INTERRUPTION_MIN_OVERLAP_SECONDS = 1;
+// Recordings sent whole are only decoded for analytics up to this size, since
+// decoding holds the uncompressed audio in memory. Larger ones (e.g. long WAV
+// imports) get analytics from the transcript alone.
+export const ANALYTICS_MAX_DECODE_BYTES = 50 * 1024 * 1024;
+
+// Appended to the prompt when the mic and system audio are sent as separate tracks.
+export const GEMINI_SOURCE_TRACKS_PROMPT = `
+The recording is provided as two time-aligned audio tracks of the same session:
+- The "local microphone" track contains only the person who made the recording (refer to them by name if they are introduced, otherwise as "Me").
+- The "system audio" track contains only the remote participants, as heard through the computer.
+Use which track a voice appears on to attribute participants, quotes and action item assignees accurately.
+Treat the two tracks as one conversation; do not describe them separately.
+`;
+
+// Bitrate used when audio is re-encoded as Opus to shrink uploads. Speech stays
+// intelligible well below this at 16kHz mono.
+export const UPLOAD_OPUS_BITRATE = 24000;
+
+// Marker types with their display label and the hotkey that adds them while recording.
+export const MARKER_TYPES: { type: MarkerType; label: string; hotkey: string }[] = [
+  { type: 'important', label: 'Important', hotkey: 'i' },
+  { type: 'decision', label: 'Decision', hotkey: 'd' },
+  { type: 'action', label: 'Action Item', hotkey: 'a' },
+];
+
+// MediaRecorder bitrates; noise reduction records at a higher quality.
+export const RECORDING_BITRATE = 128000;
+export const RECORDING_BITRATE_NOISE_REDUCTION = 192000;
+
+// Length of recording the pre-flight storage check should leave room for.
+export const STORAGE_PREFLIGHT_RECORDING_MINUTES = 60;
+
+// Default price table in US dollars per million tokens, editable in Settings.
+// Input prices are the audio rates, since most input tokens are audio.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 1.0, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.3, outputPerMillion: 0.4 },
+  { model: 'gpt-4o-audio-preview', inputPerMillion: 40, outputPerMillion: 10 },
+  { model: 'mock', inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+// Gemini bills audio at 32 tokens a second. Used to estimate the cost of a
+// recording before it is sent.
+export const AUDIO_TOKENS_PER_SECOND = 32;
+
+// Share of the monthly budget after which a warning is shown before generating.
+export const BUDGET_WARNING_FRACTION = 0.8;
+
+// Simulated latency of the local mock provider, so loading states stay visible.
+export const MOCK_PROVIDER_DELAY_MS = 800;
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadPreference, savePreference } from '../utils/preferences';
+
+const MIC_DEVICE_PREFERENCE = 'micDeviceId';
+
+export const useAudioDevices = () => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  // null means "use the browser's default input".
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(() => loadPreference<string | null>(MIC_DEVICE_PREFERENCE, null));
+
+  // Device labels are only exposed after microphone permission has been granted,
+  // so this is re-run once recording starts.
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter(device => device.kind === 'audioinput' && device.deviceId));
+    } catch (err) {
+      console.error("Failed to enumerate audio devices:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const selectDevice = useCallback((deviceId: string | null) => {
+    setSelectedDeviceId(deviceId);
+    savePreference(MIC_DEVICE_PREFERENCE, deviceId);
+  }, []);
+
+  // Devices are only listed once microphone permission has been granted, so until
+  // then the remembered device is kept. After that, one that is gone (unplugged)
+  // falls back to the default.
+  const isSelectedMissing = selectedDeviceId !== null && devices.length > 0 && !devices.some(device => device.deviceId === selectedDeviceId);
+
+  return {
+    devices,
+    selectedDeviceId: isSelectedMissing ? null : selectedDeviceId,
+    selectDevice,
+    refreshDevices,
+  };
+};
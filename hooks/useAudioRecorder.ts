@@ -1,47 +1,158 @@
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { SourceAnalysers, RecordingOptions, SourceTrack, SourceTracks, MicSwitchEvent, Marker, MarkerType } from '../types';
 import { fixWebmDuration } from '../utils/webmFixer';
+import { mixTracks } from '../utils/trackMixer';
+import * as db from '../utils/db';
+import { computeRms } from '../utils/audioLevel';
+import {
+  RECORDING_CHUNK_INTERVAL_MS, AUTO_PAUSE_SILENCE_SECONDS, VOICE_ACTIVITY_RMS_THRESHOLD,
+  RECORDING_BITRATE, RECORDING_BITRATE_NOISE_REDUCTION, RECORDING_SESSION_HEARTBEAT_MS,
+} from '../constants';
+
+
+// Requests a microphone stream, preferring the given device. The preference is
+// `ideal` rather than `exact`, so the browser uses the default input if that
+// device is gone (unplugged since it was chosen).
+const acquireMicStream = (constraints: MediaTrackConstraints, deviceId: string | null): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({ audio: deviceId ? { ...constraints, deviceId: { ideal: deviceId } } : constraints });
+
+// A recorder capturing a single source alongside the mixed recording.
+interface TrackRecorder {
+  source: SourceTrack;
+  recorder: MediaRecorder;
+  // Resolves with the finished track once the recorder has stopped.
+  finished: Promise<Blob>;
+}
 
 export const useAudioRecorder = () => {
   const [isRecording, setIsRecording] = useState<boolean>(false);
   const [isPaused, setIsPaused] = useState<boolean>(false);
+  // True when the current pause was triggered by silence detection rather than the user.
+  const [isAutoPaused, setIsAutoPaused] = useState<boolean>(false);
   const [recordingTime, setRecordingTime] = useState<number>(0);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [sourceTracks, setSourceTracks] = useState<SourceTracks | null>(null);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const markersRef = useRef<Marker[]>([]);
+  // Per-source analysers for level metering. They tap each source before mixing,
+  // so a silent mic is detectable even when it is mixed with system audio.
+  const [analysers, setAnalysers] = useState<SourceAnalysers>({ mic: null, system: null });
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const timerIntervalRef = useRef<number | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const trackRecordersRef = useRef<TrackRecorder[]>([]);
   const recordingTimeRef = useRef<number>(0);
+  // Id of the persisted session backing the current (or recovered) recording.
+  const sessionIdRef = useRef<string | null>(null);
 
   // Refs for streams and Web Audio API for robust mixing
   const micStreamRef = useRef<MediaStream | null>(null);
   const displayStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+
+  // Microphone wiring, kept so the input device can be swapped mid-recording.
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const micTargetsRef = useRef<AudioNode[]>([]);
+  const micConstraintsRef = useRef<MediaTrackConstraints>({});
+  const preferredMicDeviceIdRef = useRef<string | null>(null);
+  const isSwitchingMicRef = useRef(false);
+  const [activeMicDeviceId, setActiveMicDeviceId] = useState<string | null>(null);
+  const [lastMicSwitch, setLastMicSwitch] = useState<MicSwitchEvent | null>(null);
   
   // Ref to prevent race conditions from rapid pause/resume clicks
   const isTogglingPauseRef = useRef(false);
 
+  // Voice activity detection for auto-pause
+  const isAutoPausedRef = useRef(false);
+  const vadIntervalRef = useRef<number | null>(null);
+
+  const startTimer = useCallback(() => {
+    if (timerIntervalRef.current) {
+      clearInterval(timerIntervalRef.current);
+    }
+    timerIntervalRef.current = window.setInterval(() => {
+      setRecordingTime((prevTime) => {
+        const newTime = prevTime + 1;
+        recordingTimeRef.current = newTime;
+        return newTime;
+      });
+    }, 1000);
+  }, []);
+
+  const stopTimer = useCallback(() => {
+    if (timerIntervalRef.current) {
+      clearInterval(timerIntervalRef.current);
+      timerIntervalRef.current = null;
+    }
+  }, []);
+
+  const pauseRecorder = useCallback((auto: boolean) => {
+    if (mediaRecorderRef.current?.state !== 'recording') return;
+    mediaRecorderRef.current.pause();
+    trackRecordersRef.current.forEach(({ recorder }) => recorder.state === 'recording' && recorder.pause());
+    isAutoPausedRef.current = auto;
+    setIsAutoPaused(auto);
+    setIsPaused(true);
+    stopTimer();
+  }, [stopTimer]);
+
+  const resumeRecorder = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== 'paused') return;
+    mediaRecorderRef.current.resume();
+    trackRecordersRef.current.forEach(({ recorder }) => recorder.state === 'paused' && recorder.resume());
+    isAutoPausedRef.current = false;
+    setIsAutoPaused(false);
+    setIsPaused(false);
+    startTimer();
+  }, [startTimer]);
+
+  const stopVoiceActivityDetection = useCallback(() => {
+    if (vadIntervalRef.current) {
+      clearInterval(vadIntervalRef.current);
+      vadIntervalRef.current = null;
+    }
+    isAutoPausedRef.current = false;
+    setIsAutoPaused(false);
+  }, []);
+
   const stopAllStreams = useCallback(() => {
+    stopVoiceActivityDetection();
+
     // Stop all media tracks
     micStreamRef.current?.getTracks().forEach(track => track.stop());
     displayStreamRef.current?.getTracks().forEach(track => track.stop());
     micStreamRef.current = null;
     displayStreamRef.current = null;
+    micSourceRef.current = null;
+    micTargetsRef.current = [];
 
     // Safely close the AudioContext
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       audioContextRef.current.close();
     }
     audioContextRef.current = null;
-  }, []);
+    setAnalysers({ mic: null, system: null });
+  }, [stopVoiceActivityDetection]);
   
+  const clearPersistedSession = useCallback(() => {
+    const sessionId = sessionIdRef.current;
+    sessionIdRef.current = null;
+    if (sessionId) {
+      db.deleteRecordingSession(sessionId).catch(err => {
+        console.error("Failed to delete persisted recording session:", err);
+      });
+    }
+  }, []);
+
   const stopRecording = useCallback(() => {
     if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
     mediaRecorderRef.current.stop();
     // onstop event handler will handle the rest of the cleanup
   }, []);
 
-  const startRecording = useCallback(async (recordMic: boolean, recordSystem: boolean, noiseReduction: boolean) => {
+  const startRecording = useCallback(async ({ recordMic, recordSystem, noiseReduction, autoPause, micDeviceId }: RecordingOptions) => {
     if (isRecording) return;
 
     let acquiredMicStream: MediaStream | null = null;
@@ -57,7 +168,7 @@ export const useAudioRecorder = () => {
       // Step 1: Acquire all requested streams. If any request fails (e.g., permission denied),
       // the entire operation will be caught and aborted with a specific error.
       if (recordMic) {
-        acquiredMicStream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints });
+        acquiredMicStream = await acquireMicStream(audioConstraints, micDeviceId);
       }
       
       if (recordSystem) {
@@ -87,29 +198,85 @@ export const useAudioRecorder = () => {
         throw new Error("No audio source available. Please grant permission for at least one audio source to start recording.");
       }
       
-      // Step 3: Combine audio tracks and configure the recorder.
-      let audioStream: MediaStream;
+      // Step 3: Route every source through an AudioContext and configure the recorder.
+      // Recording the context's output rather than the raw tracks lets us tap each
+      // source for metering and swap the microphone without restarting the recorder.
       const videoTracks = acquiredDisplayStream?.getVideoTracks() ?? [];
 
-      if (acquiredMicStream && acquiredDisplayStream && micAudioTracks.length > 0 && systemAudioTracks.length > 0) {
-        const audioContext = new AudioContext();
-        audioContextRef.current = audioContext;
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
 
-        if (audioContext.state === 'suspended') {
-            await audioContext.resume();
-        }
+      if (audioContext.state === 'suspended') {
+          await audioContext.resume();
+      }
 
-        const destination = audioContext.createMediaStreamDestination();
-        const micSource = audioContext.createMediaStreamSource(acquiredMicStream);
-        micSource.connect(destination);
-        const displayAudioSource = audioContext.createMediaStreamSource(acquiredDisplayStream);
-        displayAudioSource.connect(destination);
-        
-        const mixedAudioTracks = destination.stream.getAudioTracks();
-        audioStream = new MediaStream(mixedAudioTracks);
-      } else {
-        audioStream = new MediaStream(allAudioTracks);
+      const createAnalyser = () => {
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.3;
+        return analyser;
+      };
+      const micSource = acquiredMicStream && micAudioTracks.length > 0 ? audioContext.createMediaStreamSource(acquiredMicStream) : null;
+      const displayAudioSource = acquiredDisplayStream && systemAudioTracks.length > 0 ? audioContext.createMediaStreamSource(acquiredDisplayStream) : null;
+      const micAnalyser = micSource ? createAnalyser() : null;
+      const systemAnalyser = displayAudioSource ? createAnalyser() : null;
+      setAnalysers({ mic: micAnalyser, system: systemAnalyser });
+
+      const destination = audioContext.createMediaStreamDestination();
+      const audioStream = destination.stream;
+      // Nodes each source feeds; kept so a replacement mic can be wired up identically.
+      const micTargets: AudioNode[] = micAnalyser ? [micAnalyser, destination] : [];
+      const systemTargets: AudioNode[] = systemAnalyser ? [systemAnalyser, destination] : [];
+
+      // Silence detection listens to everything being recorded. Sources are summed
+      // into one analyser, so speech on either source counts as activity.
+      if (autoPause) {
+        const vadAnalyser = createAnalyser();
+        if (micSource) micTargets.push(vadAnalyser);
+        if (displayAudioSource) systemTargets.push(vadAnalyser);
+        const samples = new Float32Array(vadAnalyser.fftSize);
+        let lastVoiceAt = Date.now();
+
+        vadIntervalRef.current = window.setInterval(() => {
+          vadAnalyser.getFloatTimeDomainData(samples);
+          const state = mediaRecorderRef.current?.state;
+          const isVoice = computeRms(samples) > VOICE_ACTIVITY_RMS_THRESHOLD;
+          // Silence only counts while recording, so resuming doesn't immediately re-pause.
+          if (isVoice || state !== 'recording') {
+            lastVoiceAt = Date.now();
+          }
+          // Only undo pauses we made ourselves; a manual pause stays paused.
+          if (isVoice && state === 'paused' && isAutoPausedRef.current) {
+            resumeRecorder();
+          } else if (state === 'recording' && Date.now() - lastVoiceAt > AUTO_PAUSE_SILENCE_SECONDS * 1000) {
+            pauseRecorder(true);
+          }
+        }, 200);
+      }
+
+      // Per-source streams, recorded next to the mix when both sources are present.
+      const separateTrackStreams: { source: SourceTrack; stream: MediaStream }[] = [];
+      if (micSource && displayAudioSource) {
+        const micDestination = audioContext.createMediaStreamDestination();
+        micTargets.push(micDestination);
+        const systemDestination = audioContext.createMediaStreamDestination();
+        systemTargets.push(systemDestination);
+        separateTrackStreams.push(
+          { source: 'mic', stream: micDestination.stream },
+          { source: 'system', stream: systemDestination.stream },
+        );
       }
+
+      micTargets.forEach(target => micSource?.connect(target));
+      systemTargets.forEach(target => displayAudioSource?.connect(target));
+      micSourceRef.current = micSource;
+      micTargetsRef.current = micTargets;
+      micConstraintsRef.current = audioConstraints;
+      preferredMicDeviceIdRef.current = micDeviceId;
+      setActiveMicDeviceId(micAudioTracks[0]?.getSettings().deviceId ?? null);
+      setLastMicSwitch(null);
+      markersRef.current = [];
+      setMarkers([]);
       
       // The video track is only used to detect when screen sharing stops.
       // We don't want to record it.
@@ -126,44 +293,96 @@ export const useAudioRecorder = () => {
         throw new Error(`Your browser does not support recording in the required format (${mimeType}).`);
       }
       
-      const audioBitrate = noiseReduction ? 192000 : 128000;
+      const audioBitrate = noiseReduction ? RECORDING_BITRATE_NOISE_REDUCTION : RECORDING_BITRATE;
       const recorder = new MediaRecorder(audioStream, { mimeType, audioBitsPerSecond: audioBitrate });
       mediaRecorderRef.current = recorder;
     
       audioChunksRef.current = [];
+      const sessionId = `session_${Date.now()}`;
+      sessionIdRef.current = sessionId;
+      try {
+        await db.createRecordingSession({
+          id: sessionId,
+          startedAt: new Date(),
+          updatedAt: new Date(),
+          mimeType,
+          durationSeconds: 0,
+        });
+      } catch (err) {
+        // Recording still works without persistence; it just can't be recovered.
+        console.error("Failed to create persisted recording session:", err);
+        sessionIdRef.current = null;
+      }
+
+      // With separate tracks, only the tracks are persisted; a recovered mix is
+      // rebuilt from them.
+      const persistMix = separateTrackStreams.length === 0;
       recorder.ondataavailable = (event) => {
         if(event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          if (persistMix && sessionIdRef.current === sessionId) {
+            db.appendRecordingChunk(sessionId, event.data, recordingTimeRef.current).catch(err => {
+              console.error("Failed to persist recording chunk:", err);
+            });
+          }
         }
       };
 
+      trackRecordersRef.current = separateTrackStreams.map(({ source, stream }) => {
+        const trackRecorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: audioBitrate });
+        const chunks: Blob[] = [];
+        trackRecorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            chunks.push(event.data);
+            if (sessionIdRef.current === sessionId) {
+              db.appendRecordingChunk(sessionId, event.data, recordingTimeRef.current, source).catch(err => {
+                console.error(`Failed to persist ${source} track chunk:`, err);
+              });
+            }
+          }
+        };
+        const finished = new Promise<Blob>((resolve) => {
+          trackRecorder.onstop = () => {
+            const rawBlob = new Blob(chunks, { type: mimeType });
+            resolve(fixWebmDuration(rawBlob, recordingTimeRef.current * 1000));
+          };
+        });
+        return { source, recorder: trackRecorder, finished };
+      });
+
       recorder.onstop = async () => {
+        // Track recorders must finish before stopAllStreams() closes the AudioContext feeding them.
+        const trackRecorders = trackRecordersRef.current;
+        trackRecordersRef.current = [];
+        trackRecorders.forEach(({ recorder }) => recorder.state !== 'inactive' && recorder.stop());
+        const trackBlobs = await Promise.all(trackRecorders.map(({ finished }) => finished));
+
         if (audioChunksRef.current.length > 0) {
           const rawBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
           const fixedBlob = await fixWebmDuration(rawBlob, recordingTimeRef.current * 1000);
           setAudioBlob(fixedBlob);
+          if (trackRecorders.length === 2) {
+            setSourceTracks({
+              mic: trackBlobs[trackRecorders.findIndex(t => t.source === 'mic')],
+              system: trackBlobs[trackRecorders.findIndex(t => t.source === 'system')],
+            });
+          }
         }
         setIsRecording(false);
         setIsPaused(false);
-        if (timerIntervalRef.current) {
-          clearInterval(timerIntervalRef.current);
-        }
+        stopTimer();
         stopAllStreams();
       };
 
-      recorder.start();
+      // A timeslice makes the recorder emit chunks periodically so they can be
+      // flushed to IndexedDB, instead of holding everything until stop().
+      recorder.start(RECORDING_CHUNK_INTERVAL_MS);
+      trackRecordersRef.current.forEach(({ recorder }) => recorder.start(RECORDING_CHUNK_INTERVAL_MS));
       setIsRecording(true);
       setIsPaused(false);
       setRecordingTime(0);
       recordingTimeRef.current = 0;
-
-      timerIntervalRef.current = window.setInterval(() => {
-        setRecordingTime((prevTime) => {
-          const newTime = prevTime + 1;
-          recordingTimeRef.current = newTime;
-          return newTime;
-        });
-      }, 1000);
+      startTimer();
 
     } catch (err) {
         console.error("Failed to start recording:", err);
@@ -173,11 +392,105 @@ export const useAudioRecorder = () => {
         
         micStreamRef.current = null;
         displayStreamRef.current = null;
+        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+          audioContextRef.current.close();
+        }
+        audioContextRef.current = null;
+        setAnalysers({ mic: null, system: null });
+        stopVoiceActivityDetection();
         
         // Re-throw so the UI component can display the specific error.
         throw err;
     }
-  }, [isRecording, stopRecording, stopAllStreams]);
+  }, [isRecording, stopRecording, stopAllStreams, startTimer, stopTimer, pauseRecorder, resumeRecorder, stopVoiceActivityDetection]);
+
+  // Replaces the microphone input while recording. The new device is connected to
+  // the same nodes as the old one, so the MediaRecorder keeps running throughout.
+  const switchMicDevice = useCallback(async (deviceId: string | null, reason: MicSwitchEvent['reason'] = 'manual') => {
+    const audioContext = audioContextRef.current;
+    const oldSource = micSourceRef.current;
+    if (!audioContext || !oldSource || isSwitchingMicRef.current) return;
+
+    isSwitchingMicRef.current = true;
+    try {
+      const newStream = await acquireMicStream(micConstraintsRef.current, deviceId);
+      // The recording may have stopped while we waited for the device.
+      if (audioContextRef.current !== audioContext) {
+        newStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const newSource = audioContext.createMediaStreamSource(newStream);
+      oldSource.disconnect();
+      micTargetsRef.current.forEach(target => newSource.connect(target));
+      micStreamRef.current?.getTracks().forEach(track => track.stop());
+      micStreamRef.current = newStream;
+      micSourceRef.current = newSource;
+      if (reason === 'manual') {
+        preferredMicDeviceIdRef.current = deviceId;
+      }
+
+      const newDeviceId = newStream.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+      setActiveMicDeviceId(newDeviceId);
+      setLastMicSwitch({ deviceId: newDeviceId, reason, at: Date.now() });
+    } catch (err) {
+      console.error("Failed to switch microphone:", err);
+    } finally {
+      isSwitchingMicRef.current = false;
+    }
+  }, []);
+
+  // While recording, follow device changes: move to another input when the current
+  // one disappears, and back to the preferred one when it is plugged in again.
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const handleDeviceChange = async () => {
+      if (!micSourceRef.current) return;
+      const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'audioinput');
+      const currentTrack = micStreamRef.current?.getAudioTracks()[0];
+      const currentId = currentTrack?.getSettings().deviceId;
+      const preferredId = preferredMicDeviceIdRef.current;
+
+      const isCurrentGone = !currentTrack || currentTrack.readyState === 'ended' || !inputs.some(device => device.deviceId === currentId);
+      const isPreferredBack = preferredId !== null && preferredId !== currentId && inputs.some(device => device.deviceId === preferredId);
+
+      if (isPreferredBack) {
+        await switchMicDevice(preferredId, 'reconnected');
+      } else if (isCurrentGone) {
+        await switchMicDevice(null, 'disconnected');
+      }
+    };
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [isRecording, switchMicDevice]);
+
+  // A paused recorder writes no chunks, so keep the session from looking stale to
+  // other tabs, which delete stale sessions on startup.
+  useEffect(() => {
+    if (!isPaused) return;
+    const interval = window.setInterval(() => {
+      if (!sessionIdRef.current) return;
+      db.touchRecordingSession(sessionIdRef.current).catch(err => {
+        console.error("Failed to update persisted recording session:", err);
+      });
+    }, RECORDING_SESSION_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [isPaused]);
+
+  // Flags the current moment of the recording. Markers are persisted with the
+  // session so they survive a crash along with the audio.
+  const addMarker = useCallback((type: MarkerType) => {
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
+    const marker: Marker = { id: `marker_${Date.now()}`, type, timeSeconds: recordingTimeRef.current };
+    markersRef.current = [...markersRef.current, marker];
+    setMarkers(markersRef.current);
+    if (sessionIdRef.current) {
+      db.saveRecordingSessionMarkers(sessionIdRef.current, markersRef.current).catch(err => {
+        console.error("Failed to persist recording markers:", err);
+      });
+    }
+  }, []);
 
   const togglePause = useCallback(() => {
     if (!isRecording || !mediaRecorderRef.current || isTogglingPauseRef.current) {
@@ -187,29 +500,16 @@ export const useAudioRecorder = () => {
     isTogglingPauseRef.current = true;
 
     if (mediaRecorderRef.current.state === "paused") {
-      mediaRecorderRef.current.resume();
-      setIsPaused(false);
-      timerIntervalRef.current = window.setInterval(() => {
-        setRecordingTime((prevTime) => {
-            const newTime = prevTime + 1;
-            recordingTimeRef.current = newTime;
-            return newTime;
-        });
-      }, 1000);
+      resumeRecorder();
     } else if (mediaRecorderRef.current.state === "recording") {
-      mediaRecorderRef.current.pause();
-      setIsPaused(true);
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-      }
+      pauseRecorder(false);
     }
     
     setTimeout(() => {
       isTogglingPauseRef.current = false;
     }, 200);
 
-  }, [isRecording]);
-
+  }, [isRecording, pauseRecorder, resumeRecorder]);
 
   const resetRecorder = useCallback(() => {
     setIsRecording(false);
@@ -217,25 +517,65 @@ export const useAudioRecorder = () => {
     setRecordingTime(0);
     recordingTimeRef.current = 0;
     setAudioBlob(null);
+    setSourceTracks(null);
+    markersRef.current = [];
+    setMarkers([]);
     audioChunksRef.current = [];
+    clearPersistedSession();
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         mediaRecorderRef.current.stop();
     } else {
         stopAllStreams();
     }
-    if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
+    stopTimer();
+  }, [stopAllStreams, clearPersistedSession, stopTimer]);
+
+  // Rebuilds an interrupted recording from its persisted chunks. The recovered
+  // session stays persisted until clearPersistedSession() or resetRecorder().
+  const recoverSession = useCallback(async (session: db.RecordingSession): Promise<{ audioBlob: Blob; sourceTracks: SourceTracks | null; markers: Marker[] }> => {
+    const rebuild = async (track?: SourceTrack): Promise<Blob | null> => {
+      const chunks = await db.getRecordingChunks(session.id, track);
+      if (chunks.length === 0) return null;
+      const rawBlob = new Blob(chunks, { type: session.mimeType });
+      return fixWebmDuration(rawBlob, session.durationSeconds * 1000);
+    };
+    const [mixBlob, micBlob, systemBlob] = await Promise.all([rebuild(), rebuild('mic'), rebuild('system')]);
+    const recoveredTracks = micBlob && systemBlob ? { mic: micBlob, system: systemBlob } : null;
+    // Sessions with separate tracks don't persist the mix. If only one track was
+    // persisted, it is all there is to recover.
+    const fixedBlob = mixBlob ?? (recoveredTracks ? await mixTracks(recoveredTracks) : micBlob ?? systemBlob);
+    if (!fixedBlob) {
+      throw new Error("The interrupted recording has no audio to recover.");
     }
-  }, [stopAllStreams]);
+
+    sessionIdRef.current = session.id;
+    recordingTimeRef.current = session.durationSeconds;
+    setRecordingTime(session.durationSeconds);
+    setAudioBlob(fixedBlob);
+    setSourceTracks(recoveredTracks);
+    markersRef.current = session.markers ?? [];
+    setMarkers(markersRef.current);
+    return { audioBlob: fixedBlob, sourceTracks: recoveredTracks, markers: markersRef.current };
+  }, []);
 
   return {
     isRecording,
     isPaused,
+    isAutoPaused,
     recordingTime,
     audioBlob,
+    sourceTracks,
+    markers,
+    addMarker,
+    analysers,
+    activeMicDeviceId,
+    lastMicSwitch,
+    switchMicDevice,
     startRecording,
     stopRecording,
     togglePause,
     resetRecorder,
+    recoverSession,
+    clearPersistedSession,
   };
 };
@@ -0,0 +1,16 @@
+import { useState, useCallback } from 'react';
+import { loadPreference, savePreference } from '../utils/preferences';
+
+const AUTO_TRIM_SILENCE_PREFERENCE = 'autoTrimSilence';
+
+// Whether long silences are cut from a recording before its notes are generated.
+export const useAutoTrimSilence = () => {
+  const [autoTrimSilence, setAutoTrimSilence] = useState<boolean>(() => loadPreference(AUTO_TRIM_SILENCE_PREFERENCE, true));
+
+  const updateAutoTrimSilence = useCallback((enabled: boolean) => {
+    setAutoTrimSilence(enabled);
+    savePreference(AUTO_TRIM_SILENCE_PREFERENCE, enabled);
+  }, []);
+
+  return { autoTrimSilence, updateAutoTrimSilence };
+};
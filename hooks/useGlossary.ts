@@ -0,0 +1,25 @@
+import { useState, useCallback } from 'react';
+import type { Glossary } from '../types';
+import { loadPreference, savePreference } from '../utils/preferences';
+import { addGlossaryEntry, EMPTY_GLOSSARY, GlossaryEntry } from '../utils/glossary';
+
+const GLOSSARY_PREFERENCE = 'glossary';
+
+export const useGlossary = () => {
+  const [glossary, setGlossary] = useState<Glossary>(() => ({ ...EMPTY_GLOSSARY, ...loadPreference<Partial<Glossary>>(GLOSSARY_PREFERENCE, {}) }));
+
+  const updateGlossary = useCallback((next: Glossary) => {
+    setGlossary(next);
+    savePreference(GLOSSARY_PREFERENCE, next);
+  }, []);
+
+  const addEntry = useCallback((entry: GlossaryEntry) => {
+    setGlossary(prev => {
+      const next = addGlossaryEntry(prev, entry);
+      savePreference(GLOSSARY_PREFERENCE, next);
+      return next;
+    });
+  }, []);
+
+  return { glossary, updateGlossary, addEntry };
+};
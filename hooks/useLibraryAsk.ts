@@ -0,0 +1,53 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { NotesProvider } from '../types';
+import { askLibrary, LibraryAnswer } from '../utils/libraryAsk';
+import { classifyError, GENERATION_ERROR_DETAILS } from '../utils/generationErrors';
+import { createTokenCounter } from '../utils/usage';
+import type { RecordUsage } from './useUsageLedger';
+
+export const useLibraryAsk = (provider: NotesProvider, recordUsage?: RecordUsage) => {
+  const [answer, setAnswer] = useState<LibraryAnswer | null>(null);
+  const [noMatches, setNoMatches] = useState(false);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const ask = useCallback(async (question: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAsking(true);
+    setError(null);
+    setNoMatches(false);
+    setAnswer(null);
+    const { tokens, onUsage } = createTokenCounter();
+    try {
+      const result = await askLibrary(provider, question, controller.signal, onUsage);
+      // Questions nothing in the library matches never reach the model.
+      if (result) recordUsage?.('library', provider.model, tokens, 'completed');
+      setAnswer(result);
+      setNoMatches(result === null);
+    } catch (err) {
+      recordUsage?.('library', provider.model, tokens, controller.signal.aborted ? 'cancelled' : 'failed');
+      if (controller.signal.aborted) return;
+      console.error("Failed to answer library question:", err);
+      const { kind, message } = classifyError(err);
+      setError(`${GENERATION_ERROR_DETAILS[kind].title}: ${message}`);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsAsking(false);
+      }
+    }
+  }, [provider, recordUsage]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAsking(false);
+  }, []);
+
+  return { answer, noMatches, isAsking, error, ask, cancel };
+};
@@ -0,0 +1,71 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { ChatMessage, NotesProvider } from '../types';
+import * as db from '../utils/db';
+import { askAboutNote, ChatContext } from '../utils/noteChat';
+import { classifyError, GENERATION_ERROR_DETAILS } from '../utils/generationErrors';
+import { createTokenCounter } from '../utils/usage';
+import type { RecordUsage } from './useUsageLedger';
+
+// Conversation about one saved note. Every exchange is written back to the note's
+// record so it is still there when the note is reopened.
+export const useNoteChat = (noteId: string, initialMessages: ChatMessage[], provider: NotesProvider, recordUsage?: RecordUsage) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The conversation as of the last render, read when a question is asked.
+  const messagesRef = useRef(messages);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // Don't leave a request running for a note that is no longer shown.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const ask = useCallback(async (question: string, context: Omit<ChatContext, 'history'>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const history = messagesRef.current;
+    const userMessage: ChatMessage = { id: `message_${Date.now()}`, role: 'user', text: question, createdAt: new Date() };
+    setMessages(prev => [...prev, userMessage]);
+    setIsAsking(true);
+    setError(null);
+    const { tokens, onUsage } = createTokenCounter();
+    let answered = false;
+    try {
+      const answer = await askAboutNote(provider, question, { ...context, history }, controller.signal, onUsage);
+      answered = true;
+      setMessages(prev => [...prev, answer]);
+      await db.saveNoteChat(noteId, [...history, userMessage, answer]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to answer question:", err);
+      const { kind, message } = classifyError(err);
+      setError(`${GENERATION_ERROR_DETAILS[kind].title}: ${message}`);
+    } finally {
+      recordUsage?.('chat', provider.model, tokens, answered ? 'completed' : controller.signal.aborted ? 'cancelled' : 'failed');
+      abortRef.current = null;
+      setIsAsking(false);
+    }
+  }, [noteId, provider, recordUsage]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    // Drop the unanswered question.
+    setMessages(prev => (prev[prev.length - 1]?.role === 'user' ? prev.slice(0, -1) : prev));
+  }, []);
+
+  const clear = useCallback(async () => {
+    abortRef.current?.abort();
+    setMessages([]);
+    setError(null);
+    try {
+      await db.saveNoteChat(noteId, []);
+    } catch (err) {
+      console.error("Failed to clear conversation:", err);
+    }
+  }, [noteId]);
+
+  return { messages, isAsking, error, ask, cancel, clear };
+};
@@ -0,0 +1,41 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { NoteTemplate } from '../types';
+import { loadPreference, savePreference } from '../utils/preferences';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, findTemplate } from '../utils/templates';
+
+const CUSTOM_TEMPLATES_PREFERENCE = 'customTemplates';
+const SELECTED_TEMPLATE_PREFERENCE = 'selectedTemplate';
+
+export const useNoteTemplates = () => {
+  const [customTemplates, setCustomTemplates] = useState<NoteTemplate[]>(() => loadPreference<NoteTemplate[]>(CUSTOM_TEMPLATES_PREFERENCE, []));
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>(() => loadPreference(SELECTED_TEMPLATE_PREFERENCE, DEFAULT_TEMPLATE_ID));
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...customTemplates], [customTemplates]);
+  const selectedTemplate = useMemo(() => findTemplate(templates, selectedTemplateId), [templates, selectedTemplateId]);
+
+  const selectTemplate = useCallback((id: string) => {
+    setSelectedTemplateId(id);
+    savePreference(SELECTED_TEMPLATE_PREFERENCE, id);
+  }, []);
+
+  const updateCustomTemplates = useCallback((update: (prev: NoteTemplate[]) => NoteTemplate[]) => {
+    setCustomTemplates(prev => {
+      const next = update(prev);
+      savePreference(CUSTOM_TEMPLATES_PREFERENCE, next);
+      return next;
+    });
+  }, []);
+
+  // Adds a custom template, or replaces the one with the same id.
+  const saveTemplate = useCallback((template: NoteTemplate) => {
+    updateCustomTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => (t.id === template.id ? template : t))
+      : [...prev, template]);
+  }, [updateCustomTemplates]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    updateCustomTemplates(prev => prev.filter(t => t.id !== id));
+  }, [updateCustomTemplates]);
+
+  return { templates, customTemplates, selectedTemplate, selectTemplate, saveTemplate, deleteTemplate };
+};
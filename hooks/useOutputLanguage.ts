@@ -0,0 +1,16 @@
+import { useState, useCallback } from 'react';
+import { loadPreference, savePreference } from '../utils/preferences';
+
+const OUTPUT_LANGUAGE_PREFERENCE = 'outputLanguage';
+
+// null means "write notes in the language that is spoken".
+export const useOutputLanguage = () => {
+  const [outputLanguage, setOutputLanguage] = useState<string | null>(() => loadPreference<string | null>(OUTPUT_LANGUAGE_PREFERENCE, null));
+
+  const selectOutputLanguage = useCallback((code: string | null) => {
+    setOutputLanguage(code);
+    savePreference(OUTPUT_LANGUAGE_PREFERENCE, code);
+  }, []);
+
+  return { outputLanguage, selectOutputLanguage };
+};
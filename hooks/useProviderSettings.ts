@@ -0,0 +1,27 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { ProviderSettings } from '../types';
+import { loadPreference, savePreference } from '../utils/preferences';
+import { createProvider, DEFAULT_PROVIDER_SETTINGS } from '../utils/providers';
+
+const PROVIDER_SETTINGS_PREFERENCE = 'providerSettings';
+
+export const useProviderSettings = () => {
+  const [settings, setSettings] = useState<ProviderSettings>(() => {
+    const stored = loadPreference<Partial<ProviderSettings>>(PROVIDER_SETTINGS_PREFERENCE, {});
+    // Merge over the defaults so settings saved by older versions stay valid.
+    return {
+      ...DEFAULT_PROVIDER_SETTINGS,
+      ...stored,
+      openAi: { ...DEFAULT_PROVIDER_SETTINGS.openAi, ...stored.openAi },
+    };
+  });
+
+  const updateSettings = useCallback((next: ProviderSettings) => {
+    setSettings(next);
+    savePreference(PROVIDER_SETTINGS_PREFERENCE, next);
+  }, []);
+
+  const provider = useMemo(() => createProvider(settings), [settings]);
+
+  return { settings, updateSettings, provider };
+};
@@ -0,0 +1,37 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ModelPrice, TokenUsage, UsageKind, UsageOutcome, UsageRecord } from '../types';
+import * as db from '../utils/db';
+import { estimateCost } from '../utils/usage';
+
+// Records the usage of one finished request and returns the ledger entry.
+export type RecordUsage = (kind: UsageKind, model: string, tokens: TokenUsage, outcome: UsageOutcome, audioSeconds?: number) => UsageRecord;
+
+// The usage ledger, which spending and budgets are computed from. Entries are
+// priced with the price table at the time of the request.
+export const useUsageLedger = (prices: ModelPrice[]) => {
+  const [ledger, setLedger] = useState<UsageRecord[]>([]);
+
+  useEffect(() => {
+    db.getAllUsageRecords()
+      .then(records => setLedger(prev => [...records, ...prev]))
+      .catch(err => console.error("Failed to load usage:", err));
+  }, []);
+
+  const recordUsage: RecordUsage = useCallback((kind, model, tokens, outcome, audioSeconds = 0) => {
+    const record: UsageRecord = {
+      kind,
+      outcome,
+      model,
+      inputTokens: tokens.inputTokens,
+      outputTokens: tokens.outputTokens,
+      audioSeconds,
+      createdAt: new Date(),
+      costUsd: estimateCost(tokens, model, prices),
+    };
+    setLedger(prev => [...prev, record]);
+    db.addUsageRecord(record).catch(err => console.error("Failed to record usage:", err));
+    return record;
+  }, [prices]);
+
+  return { ledger, recordUsage };
+};
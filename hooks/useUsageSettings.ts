@@ -0,0 +1,22 @@
+import { useState, useCallback } from 'react';
+import type { UsageSettings } from '../types';
+import { loadPreference, savePreference } from '../utils/preferences';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+
+const USAGE_SETTINGS_PREFERENCE = 'usageSettings';
+
+const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_MODEL_PRICES, monthlyBudgetUsd: null };
+
+export const useUsageSettings = () => {
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => ({
+    ...DEFAULT_USAGE_SETTINGS,
+    ...loadPreference<Partial<UsageSettings>>(USAGE_SETTINGS_PREFERENCE, {}),
+  }));
+
+  const updateUsageSettings = useCallback((next: UsageSettings) => {
+    setUsageSettings(next);
+    savePreference(USAGE_SETTINGS_PREFERENCE, next);
+  }, []);
+
+  return { usageSettings, updateUsageSettings };
+};
@@ -0,0 +1,134 @@
+// Local stand-in for the Gemini Files API, for testing large-file uploads
+// without an API key. It speaks the resumable upload protocol used by
+// utils/fileUpload.ts, keeps file metadata in memory and discards the audio.
+//
+//   npm run upload-server
+//
+// Then set Settings → Upload endpoint to http://localhost:8787 and use the
+// Local mock provider. Environment variables:
+//   PORT                  port to listen on (default 8787)
+//   PROCESSING_MS         how long new files stay in the PROCESSING state (default 1000)
+//   UPLOAD_FAILURE_RATE   share of chunks rejected with a 503, to test resuming (default 0)
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const PROCESSING_MS = Number(process.env.PROCESSING_MS ?? 1000);
+const UPLOAD_FAILURE_RATE = Number(process.env.UPLOAD_FAILURE_RATE ?? 0);
+
+// Upload sessions by id, and finished files by resource name.
+const sessions = new Map();
+const files = new Map();
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'X-Goog-Upload-URL, X-Goog-Upload-Status, X-Goog-Upload-Size-Received',
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const fileResource = (file) => ({
+  name: file.name,
+  displayName: file.displayName,
+  mimeType: file.mimeType,
+  sizeBytes: String(file.size),
+  uri: file.uri,
+  state: Date.now() < file.readyAt ? 'PROCESSING' : 'ACTIVE',
+});
+
+const startUpload = async (req, res, origin) => {
+  const { file = {} } = JSON.parse((await readBody(req)).toString() || '{}');
+  const id = randomUUID();
+  sessions.set(id, {
+    displayName: file.display_name ?? '',
+    mimeType: req.headers['x-goog-upload-header-content-type'] ?? 'application/octet-stream',
+    expectedSize: Number(req.headers['x-goog-upload-header-content-length'] ?? 0),
+    received: 0,
+  });
+  send(res, 200, undefined, {
+    'X-Goog-Upload-URL': `${origin}/upload/v1beta/files?upload_id=${id}`,
+    'X-Goog-Upload-Status': 'active',
+  });
+};
+
+const continueUpload = async (req, res, id, origin) => {
+  const session = sessions.get(id);
+  if (!session) return send(res, 404, { error: { message: 'Unknown upload session' } });
+  const command = String(req.headers['x-goog-upload-command'] ?? '');
+  if (command === 'query') {
+    return send(res, 200, undefined, { 'X-Goog-Upload-Status': 'active', 'X-Goog-Upload-Size-Received': String(session.received) });
+  }
+
+  const body = await readBody(req);
+  if (Math.random() < UPLOAD_FAILURE_RATE) {
+    console.log(`upload ${id}: rejected chunk at ${session.received} (simulated failure)`);
+    return send(res, 503, { error: { message: 'Simulated failure' } });
+  }
+  const offset = Number(req.headers['x-goog-upload-offset'] ?? -1);
+  if (offset !== session.received) {
+    return send(res, 400, { error: { message: `Expected offset ${session.received} but got ${offset}` } });
+  }
+  session.received += body.length;
+  console.log(`upload ${id}: ${session.received} of ${session.expectedSize} bytes`);
+  if (!command.includes('finalize')) {
+    return send(res, 200, undefined, { 'X-Goog-Upload-Status': 'active' });
+  }
+
+  sessions.delete(id);
+  const name = `files/${id}`;
+  const file = {
+    name,
+    displayName: session.displayName,
+    mimeType: session.mimeType,
+    size: session.received,
+    uri: `${origin}/v1beta/${name}`,
+    readyAt: Date.now() + PROCESSING_MS,
+  };
+  files.set(name, file);
+  console.log(`created ${name} (${file.size} bytes, ${file.mimeType})`);
+  send(res, 200, { file: fileResource(file) }, { 'X-Goog-Upload-Status': 'final' });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const origin = `http://${req.headers.host}`;
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'POST' && url.pathname === '/upload/v1beta/files') {
+      const id = url.searchParams.get('upload_id');
+      return id ? await continueUpload(req, res, id, origin) : await startUpload(req, res, origin);
+    }
+    if (req.method === 'GET' && url.pathname === '/v1beta/files') {
+      return send(res, 200, { files: [...files.values()].map(fileResource) });
+    }
+    const name = url.pathname.replace(/^\/v1beta\//, '');
+    const file = files.get(name);
+    if (!url.pathname.startsWith('/v1beta/files/') || !file) {
+      return send(res, 404, { error: { message: `Not found: ${url.pathname}` } });
+    }
+    if (req.method === 'GET') return send(res, 200, fileResource(file));
+    if (req.method === 'DELETE') {
+      files.delete(name);
+      console.log(`deleted ${name}`);
+      return send(res, 200, {});
+    }
+    send(res, 405, { error: { message: `Method ${req.method} not allowed` } });
+  } catch (err) {
+    console.error(err);
+    send(res, 500, { error: { message: String(err) } });
+  }
+});
+
+server.listen(PORT, () => console.log(`Upload stand-in server listening on http://localhost:${PORT}`));
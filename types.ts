@@ -1,3 +1,5 @@
+import type { Schema } from '@google/genai';
+
 export enum AppState {
   IDLE,
   REQUESTING_MIC,
@@ -7,6 +9,7 @@ export enum AppState {
   SUCCESS,
   ERROR,
   HISTORY,
+  SETTINGS,
 }
 
 export interface Participant {
@@ -30,6 +33,55 @@ export interface ActionItem {
   assignee: string;
 }
 
+// One speaker turn of the verbatim transcript. Times are seconds from the start of the audio.
+export interface TranscriptSegment {
+  speaker: string;
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
+export type Sentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+export interface TopicSentiment {
+  topic: string;
+  sentiment: Sentiment;
+  // From -1 (very negative) to 1 (very positive).
+  score: number;
+}
+
+export interface SpeakerStats {
+  speaker: string;
+  talkSeconds: number;
+  // Consecutive transcript turns by the same speaker count as one turn.
+  turns: number;
+  longestMonologueSeconds: number;
+  questions: number;
+  // Turns started while another speaker was still talking.
+  interruptions: number;
+}
+
+// Measured locally from the recording rather than reported by the model.
+export interface AudioActivity {
+  durationSeconds: number;
+  speechSeconds: number;
+  // Present when the microphone and system audio were recorded separately.
+  tracks?: { label: string; speechSeconds: number }[];
+  // Seconds in which both tracks had speech at once.
+  overlapSeconds?: number;
+}
+
+export interface ConversationAnalytics {
+  speakers: SpeakerStats[];
+  topicSentiment: TopicSentiment[];
+  // Missing when the recording could not be decoded or was too large to decode.
+  audio?: AudioActivity;
+}
+
+// Generated notes. Every template produces a title, summary and transcript. The
+// sections of the built-in meeting template have typed fields, which other
+// templates use for sections of the same key and kind and otherwise leave empty;
+// all other sections are in `sections`, keyed by TemplateSection.key.
 export interface Notes {
   title: string;
   summary: string;
@@ -38,10 +90,246 @@ export interface Notes {
   definitions?: Definition[];
   decisions: string[];
   actionItems: ActionItem[];
+  // Missing when the template has no sections besides the typed ones.
+  sections?: Record<string, unknown>;
+  // Missing on notes created before transcripts were generated.
+  transcript?: TranscriptSegment[];
+  // Missing on notes created before analytics were added.
+  analytics?: ConversationAnalytics;
+}
+
+// How a template section is generated and displayed.
+export type TemplateSectionKind = 'text' | 'list' | 'participants' | 'topics' | 'definitions' | 'actionItems';
+
+export interface TemplateSection {
+  // Property name in the generated notes.
+  key: string;
+  title: string;
+  kind: TemplateSectionKind;
+  // Tells the model what belongs in the section.
+  description: string;
+  optional?: boolean;
+}
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Instructions describing the recording type and what to focus on.
+  prompt: string;
+  sections: TemplateSection[];
+  builtIn?: boolean;
 }
 
 export interface HistoryItem {
   id: string;
   title: string;
   createdAt: Date;
+  // Bytes taken by the note's audio, including any separate source tracks.
+  sizeBytes: number;
+  hasAudio: boolean;
+  // Usage of every generation of the note, oldest first.
+  usage: NoteUsage[];
+}
+
+export interface GenerationProgress {
+  label: string;
+  completed: number;
+  total: number;
+  // Shown under the progress bar; defaults to counting segments.
+  detail?: string;
+}
+
+export interface SourceAnalysers {
+  mic: AnalyserNode | null;
+  system: AnalyserNode | null;
+}
+
+export interface RecordingOptions {
+  recordMic: boolean;
+  recordSystem: boolean;
+  noiseReduction: boolean;
+  // Pause automatically during long silences and resume when speech returns.
+  autoPause: boolean;
+  // Preferred microphone; null or unavailable falls back to the default input.
+  micDeviceId: string | null;
+}
+
+// The two capture sources, recorded separately when both are enabled so the
+// model can tell the local speaker apart from remote participants.
+export type SourceTrack = 'mic' | 'system';
+
+export interface SourceTracks {
+  mic: Blob;
+  system: Blob;
+}
+
+// Describes the most recent microphone change during a recording.
+export interface MicSwitchEvent {
+  deviceId: string | null;
+  reason: 'disconnected' | 'reconnected' | 'manual';
+  at: number;
+}
+
+export type MarkerType = 'important' | 'decision' | 'action';
+
+// A point in the recording flagged by the user while recording.
+export interface Marker {
+  id: string;
+  type: MarkerType;
+  timeSeconds: number;
+}
+
+// A place in the recording that a chat answer relies on.
+export interface ChatReference {
+  label: string;
+  startSeconds?: number | null;
+}
+
+// A copy of a note's notes in another language. The transcript is not translated.
+export interface NoteTranslation {
+  // Code from OUTPUT_LANGUAGES.
+  language: string;
+  notes: Notes;
+  createdAt: Date;
+}
+
+// Spellings the model should use for names and jargon.
+export interface GlossaryPerson {
+  name: string;
+  role?: string;
+}
+
+export interface GlossaryTerm {
+  term: string;
+  // Optional explanation, given to the model as context.
+  description?: string;
+}
+
+// A spelling the model tends to get wrong, replaced after generation.
+export interface GlossaryCorrection {
+  from: string;
+  to: string;
+}
+
+export interface Glossary {
+  people: GlossaryPerson[];
+  terms: GlossaryTerm[];
+  corrections: GlossaryCorrection[];
+}
+
+// One message of a conversation about a note.
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: Date;
+  references?: ChatReference[];
+}
+
+// One audio stream sent to the model. Labelled inputs are preceded by a text
+// part naming them, so the prompt can refer to each track.
+export interface AudioInput {
+  blob: Blob;
+  label?: string;
+  // Set once the audio has been uploaded; the request then references the file
+  // instead of carrying the blob inline.
+  file?: RemoteFile;
+}
+
+// Audio uploaded through a provider's file API.
+export interface RemoteFile {
+  // Resource name used to check on and delete the file, e.g. "files/abc123".
+  name: string;
+  uri: string;
+  mimeType: string;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  geminiModel: string;
+  openAi: {
+    // Base URL of an OpenAI-compatible API, e.g. https://gateway.example.com/v1
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+  };
+  // Server for large-file uploads, speaking the Gemini resumable upload
+  // protocol. With Gemini it must be a proxy to the Gemini API. Empty to use the
+  // Gemini API itself.
+  uploadEndpoint: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Optional callbacks for one provider request.
+export interface RequestHooks {
+  // Receives the response text received so far. Providers stream the response
+  // when this is given.
+  onText?: (text: string) => void;
+  // Receives the token counts the API reported for the request.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Tokens and estimated cost of one generation of a note.
+export interface NoteUsage extends TokenUsage {
+  createdAt: Date;
+  model: string;
+  audioSeconds: number;
+  // In US dollars, estimated with the price table at generation time. Null when
+  // the table had no price for the model.
+  costUsd: number | null;
+}
+
+// What a request in the usage ledger was made for.
+export type UsageKind = 'notes' | 'chat' | 'library' | 'translation';
+
+export type UsageOutcome = 'completed' | 'failed' | 'cancelled';
+
+// One entry of the usage ledger, written when a request finishes, however it
+// ends. Entries are kept when the note they belong to is deleted.
+export interface UsageRecord extends NoteUsage {
+  // Assigned by the database.
+  id?: number;
+  kind: UsageKind;
+  outcome: UsageOutcome;
+}
+
+// US dollars per million tokens.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  // Null for no budget.
+  monthlyBudgetUsd: number | null;
+}
+
+// A backend that turns audio into notes. Structured output is described with
+// Gemini-style schemas; providers translate them to their own format. Results
+// are parsed JSON that has not been validated against the schema yet.
+export interface NotesProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  // Model name used to look up prices, e.g. "gemini-2.5-flash".
+  readonly model: string;
+  generateNotes(inputs: AudioInput[], prompt: string, schema: Schema, signal?: AbortSignal, hooks?: RequestHooks): Promise<unknown>;
+  // Converts audio to the format the provider sends, so that its size can be
+  // checked against the inline limit before the request. Providers that send
+  // audio as it is leave this out.
+  prepareAudio?(inputs: AudioInput[]): Promise<AudioInput[]>;
+  // Text-only structured generation, used e.g. to merge segment summaries.
+  generateJson(prompt: string, schema: Schema, signal?: AbortSignal, hooks?: RequestHooks): Promise<unknown>;
+  // Uploads audio so that requests can reference it instead of inlining it.
+  // Providers without a file API leave these out.
+  uploadAudio?(blob: Blob, onProgress: (sentBytes: number) => void, signal?: AbortSignal): Promise<RemoteFile>;
+  deleteAudio?(file: RemoteFile): Promise<void>;
 }
@@ -0,0 +1,324 @@
+// Client-side audio decoding and encoding helpers built on the Web Audio API.
+
+// Decodes a compressed audio blob into PCM. When a sample rate is given, the
+// audio is resampled during decoding, which keeps memory use down for long files.
+export const decodeAudioBlob = async (blob: Blob, sampleRate = 44100): Promise<AudioBuffer> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  // An OfflineAudioContext is only used for decoding, so its length is irrelevant.
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(arrayBuffer);
+};
+
+// Copies the [startSeconds, endSeconds) range of a buffer, optionally averaging
+// all channels down to mono.
+export const sliceAudioBuffer = (buffer: AudioBuffer, startSeconds: number, endSeconds: number, mono = false): AudioBuffer => {
+  const startFrame = Math.max(0, Math.floor(startSeconds * buffer.sampleRate));
+  const endFrame = Math.min(buffer.length, Math.ceil(endSeconds * buffer.sampleRate));
+  const length = Math.max(1, endFrame - startFrame);
+  const numberOfChannels = mono ? 1 : buffer.numberOfChannels;
+  const slice = new AudioBuffer({ length, numberOfChannels, sampleRate: buffer.sampleRate });
+
+  if (mono) {
+    const mixed = slice.getChannelData(0);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel).subarray(startFrame, endFrame);
+      for (let i = 0; i < data.length; i++) {
+        mixed[i] += data[i] / buffer.numberOfChannels;
+      }
+    }
+  } else {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      slice.copyToChannel(buffer.getChannelData(channel).subarray(startFrame, endFrame), channel);
+    }
+  }
+  return slice;
+};
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+// Encodes a buffer as a 16-bit PCM WAV file.
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const numberOfChannels = buffer.numberOfChannels;
+  const bytesPerSample = 2;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const arrayBuffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(arrayBuffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  let offset = 44;
+  for (let frame = 0; frame < buffer.length; frame++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: 'audio/wav' });
+};
+
+// Resamples and/or downmixes a buffer by rendering it through an OfflineAudioContext.
+export const resampleAudioBuffer = async (buffer: AudioBuffer, sampleRate: number, numberOfChannels: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate && buffer.numberOfChannels === numberOfChannels) {
+    return buffer;
+  }
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const context = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+// --- Ogg/Opus encoding -------------------------------------------------------
+// Opus packets come from WebCodecs' AudioEncoder; the Ogg container (RFC 3533,
+// with the Opus mapping from RFC 7845) is written by hand below.
+
+// Sample rates Opus can encode natively. Granule positions are always in 48kHz units.
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+const OPUS_GRANULE_RATE = 48000;
+// Encoder lookahead at 48kHz, used when the encoder doesn't report its own OpusHead.
+const DEFAULT_OPUS_PRE_SKIP = 312;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+class OggWriter {
+  private pages: Uint8Array[] = [];
+  private sequence = 0;
+  private readonly serial = Math.floor(Math.random() * 0xffffffff);
+
+  // Writes one page holding the given packets. Each packet must be complete.
+  public writePage(packets: Uint8Array[], granulePosition: number, flags: number): void {
+    const lacing: number[] = [];
+    packets.forEach(packet => {
+      let remaining = packet.length;
+      while (remaining >= 255) {
+        lacing.push(255);
+        remaining -= 255;
+      }
+      lacing.push(remaining);
+    });
+
+    const bodyLength = packets.reduce((total, packet) => total + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    page[4] = 0; // version
+    page[5] = flags;
+    view.setBigInt64(6, BigInt(granulePosition), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+    let offset = 27 + lacing.length;
+    packets.forEach(packet => {
+      page.set(packet, offset);
+      offset += packet.length;
+    });
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+
+  public getBlob(mimeType: string): Blob {
+    return new Blob(this.pages, { type: mimeType });
+  }
+}
+
+const createOpusHead = (numberOfChannels: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // version
+  head[9] = numberOfChannels;
+  view.setUint16(10, DEFAULT_OPUS_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family
+  return head;
+};
+
+const createOpusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode('VoiceNotesAI');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // no user comments
+  return tags;
+};
+
+export const isOpusEncodingSupported = async (sampleRate = OPUS_GRANULE_RATE, numberOfChannels = 1): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate, numberOfChannels });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+// Encodes audio as Opus in an Ogg container, fed one buffer at a time so that
+// long recordings can be encoded without holding all of their samples. Buffers
+// must all have the encoder's sample rate and channel count.
+export interface OggOpusEncoder {
+  encode: (buffer: AudioBuffer) => void;
+  finish: () => Promise<Blob>;
+}
+
+export const createOggOpusEncoder = (sampleRate: number, numberOfChannels: number, bitrate = 32000): OggOpusEncoder => {
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let opusHead: Uint8Array | null = null;
+  let encoderError: Error | null = null;
+  let framesEncoded = 0;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const samples = Math.round(((chunk.duration ?? 20000) * OPUS_GRANULE_RATE) / 1_000_000);
+      packets.push({ data, samples });
+      const description = metadata?.decoderConfig?.description;
+      if (!opusHead && description) {
+        opusHead = description instanceof ArrayBuffer
+          ? new Uint8Array(description.slice(0))
+          : new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice();
+      }
+    },
+    error: (err) => {
+      encoderError = err;
+    },
+  });
+  encoder.configure({ codec: 'opus', sampleRate, numberOfChannels, bitrate, opus: { format: 'ogg' } });
+
+  return {
+    encode: (buffer) => {
+      // Feed the encoder one second at a time to keep the copies small.
+      const framesPerChunk = sampleRate;
+      for (let frame = 0; frame < buffer.length; frame += framesPerChunk) {
+        const frames = Math.min(framesPerChunk, buffer.length - frame);
+        const planar = new Float32Array(frames * numberOfChannels);
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+          planar.set(buffer.getChannelData(channel).subarray(frame, frame + frames), channel * frames);
+        }
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate,
+          numberOfFrames: frames,
+          numberOfChannels,
+          timestamp: Math.round((framesEncoded / sampleRate) * 1_000_000),
+          data: planar,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+        framesEncoded += frames;
+      }
+    },
+    finish: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (encoderError) throw encoderError;
+
+      const writer = new OggWriter();
+      writer.writePage([opusHead ?? createOpusHead(numberOfChannels, sampleRate)], 0, 0x02);
+      writer.writePage([createOpusTags()], 0, 0);
+
+      // Pack packets into pages of at most 255 lacing values.
+      let granule = 0;
+      let pagePackets: Uint8Array[] = [];
+      let pageLacing = 0;
+      packets.forEach((packet, i) => {
+        const lacing = Math.floor(packet.data.length / 255) + 1;
+        if (pagePackets.length > 0 && pageLacing + lacing > 255) {
+          writer.writePage(pagePackets, granule, 0);
+          pagePackets = [];
+          pageLacing = 0;
+        }
+        pagePackets.push(packet.data);
+        pageLacing += lacing;
+        granule += packet.samples;
+        if (i === packets.length - 1) {
+          writer.writePage(pagePackets, granule, 0x04);
+        }
+      });
+
+      return writer.getBlob('audio/ogg');
+    },
+  };
+};
+
+// Encodes a buffer as Opus in an Ogg container. Buffers at a sample rate Opus
+// doesn't support are resampled to 48kHz first.
+export const encodeOggOpus = async (input: AudioBuffer, bitrate = 32000): Promise<Blob> => {
+  const buffer = OPUS_SAMPLE_RATES.includes(input.sampleRate)
+    ? input
+    : await resampleAudioBuffer(input, OPUS_GRANULE_RATE, input.numberOfChannels);
+  const encoder = createOggOpusEncoder(buffer.sampleRate, buffer.numberOfChannels, bitrate);
+  encoder.encode(buffer);
+  return encoder.finish();
+};
+
+// --- Format conversion -------------------------------------------------------
+
+export type AudioFormat = 'wav' | 'opus';
+
+export interface ConvertOptions {
+  format: AudioFormat;
+  // Target sample rate; defaults to 48kHz. The Web Audio API always resamples
+  // while decoding, so the source rate can't be kept; 48kHz is what browsers
+  // record at and what Opus decodes to.
+  sampleRate?: number;
+  mono?: boolean;
+  // Opus only, in bits per second.
+  bitrate?: number;
+}
+
+export const AUDIO_FORMAT_EXTENSIONS: Record<AudioFormat, string> = {
+  wav: 'wav',
+  opus: 'ogg',
+};
+
+// Decodes a recording and re-encodes it in the requested format, entirely in the browser.
+export const convertAudio = async (blob: Blob, { format, sampleRate, mono = false, bitrate }: ConvertOptions): Promise<Blob> => {
+  const decoded = await decodeAudioBlob(blob, sampleRate ?? OPUS_GRANULE_RATE);
+  const buffer = mono ? await resampleAudioBuffer(decoded, decoded.sampleRate, 1) : decoded;
+  return format === 'opus' ? encodeOggOpus(buffer, bitrate) : encodeWav(buffer);
+};
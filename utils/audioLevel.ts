@@ -0,0 +1,8 @@
+// Root mean square of a block of samples, used as the loudness of live audio.
+export const computeRms = (data: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.sqrt(sum / data.length);
+};
@@ -0,0 +1,44 @@
+import { SEGMENT_DURATION_SECONDS, SEGMENT_OVERLAP_SECONDS, SEGMENT_SAMPLE_RATE, UPLOAD_OPUS_BITRATE } from '../constants';
+import { encodeWav, encodeOggOpus, isOpusEncodingSupported } from './audioConverter';
+import { createWindowReader, WindowReader } from './audioWindows';
+
+export interface AudioSegment {
+  index: number;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+// Splits [0, durationSeconds) into segments of at most `segmentSeconds`, each
+// starting `overlapSeconds` before the previous one ends so that sentences cut
+// at a boundary are heard in full by at least one segment.
+export const planSegments = (
+  durationSeconds: number,
+  segmentSeconds = SEGMENT_DURATION_SECONDS,
+  overlapSeconds = SEGMENT_OVERLAP_SECONDS,
+): AudioSegment[] => {
+  const segments: AudioSegment[] = [];
+  const step = Math.max(1, segmentSeconds - overlapSeconds);
+  let start = 0;
+  while (start < durationSeconds) {
+    const end = Math.min(durationSeconds, start + segmentSeconds);
+    segments.push({ index: segments.length, startSeconds: start, endSeconds: end });
+    if (end >= durationSeconds) break;
+    start += step;
+  }
+  return segments;
+};
+
+// Prepares to decode a recording one segment at a time, at the low sample rate
+// used for segment uploads.
+export const createSegmentReader = (blob: Blob): Promise<WindowReader> => {
+  return createWindowReader(blob, SEGMENT_SAMPLE_RATE);
+};
+
+// Encodes mono speech as low-bitrate Opus, or as WAV in browsers without an
+// Opus encoder.
+export const encodeSpeech = async (buffer: AudioBuffer): Promise<Blob> => {
+  if (await isOpusEncodingSupported(buffer.sampleRate, 1)) {
+    return encodeOggOpus(buffer, UPLOAD_OPUS_BITRATE);
+  }
+  return encodeWav(buffer);
+};
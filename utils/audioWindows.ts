@@ -0,0 +1,311 @@
+import { decodeAudioBlob, sliceAudioBuffer } from './audioConverter';
+
+// Reads stretches of a recording without decoding all of it, so that memory use
+// doesn't grow with its length. PCM WAV files are cut by sample offsets and WebM
+// files by cluster; each cut is a small file of its own that the browser decodes.
+// Other formats are decoded whole once and sliced.
+
+export interface WindowReader {
+  durationSeconds: number;
+  // Decodes [startSeconds, endSeconds) as mono audio.
+  read: (startSeconds: number, endSeconds: number) => Promise<AudioBuffer>;
+}
+
+// A standalone file holding a stretch of the recording, which starts at
+// `startSeconds` and may reach past both ends of the requested one.
+interface AudioCut {
+  blob: Blob;
+  startSeconds: number;
+}
+
+interface WindowIndex {
+  durationSeconds: number;
+  cut: (startSeconds: number, endSeconds: number) => AudioCut;
+}
+
+type ByteReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+// Bytes loaded at a time while scanning a file's structure.
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+// Reads bytes of a blob, keeping only the chunk around the last read in memory.
+const createByteReader = (blob: Blob): ByteReader => {
+  let chunkStart = 0;
+  let chunk = new Uint8Array(0);
+  return async (offset, length) => {
+    if (offset < chunkStart || offset + length > chunkStart + chunk.length) {
+      chunkStart = offset;
+      chunk = new Uint8Array(await blob.slice(offset, offset + Math.max(length, READ_CHUNK_BYTES)).arrayBuffer());
+    }
+    return chunk.subarray(offset - chunkStart, offset - chunkStart + length);
+  };
+};
+
+const readText = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// WAV format codes whose data is plain frames: PCM, IEEE float and extensible.
+const FRAME_FORMATS = new Set([1, 3, 0xFFFE]);
+
+const indexWav = async (blob: Blob, read: ByteReader): Promise<WindowIndex | null> => {
+  const riff = await read(0, 12);
+  if (riff.length < 12 || readText(riff, 0, 4) !== 'RIFF' || readText(riff, 8, 4) !== 'WAVE') return null;
+
+  let fmt: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= blob.size) {
+    const chunkHeader = await read(offset, 8);
+    const id = readText(chunkHeader, 0, 4);
+    const length = viewOf(chunkHeader).getUint32(4, true);
+    if (id === 'fmt ') {
+      fmt = (await read(offset, 8 + length)).slice();
+    } else if (id === 'data') {
+      if (!fmt || fmt.length < 24) return null;
+      const format = viewOf(fmt);
+      if (!FRAME_FORMATS.has(format.getUint16(8, true))) return null;
+      const sampleRate = format.getUint32(12, true);
+      const blockAlign = format.getUint16(20, true);
+      const fmtChunk = fmt;
+      const dataStart = offset + 8;
+      // Streamed files may leave the data length unset.
+      const dataEnd = Math.min(blob.size, dataStart + length);
+      return {
+        durationSeconds: Math.floor((dataEnd - dataStart) / blockAlign) / sampleRate,
+        cut: (startSeconds, endSeconds) => {
+          const startFrame = Math.max(0, Math.floor(startSeconds * sampleRate));
+          const start = Math.min(dataEnd, dataStart + startFrame * blockAlign);
+          const end = Math.min(dataEnd, dataStart + Math.ceil(endSeconds * sampleRate) * blockAlign);
+          const header = new Uint8Array(20);
+          const view = viewOf(header);
+          header.set([0x52, 0x49, 0x46, 0x46], 0); // RIFF
+          view.setUint32(4, 4 + fmtChunk.length + 8 + (end - start), true);
+          header.set([0x57, 0x41, 0x56, 0x45], 8); // WAVE
+          header.set([0x64, 0x61, 0x74, 0x61], 12); // data
+          view.setUint32(16, end - start, true);
+          return {
+            blob: new Blob([header.subarray(0, 12), fmtChunk, header.subarray(12), blob.slice(start, end)], { type: 'audio/wav' }),
+            startSeconds: startFrame / sampleRate,
+          };
+        },
+      };
+    }
+    offset += 8 + length + (length % 2);
+  }
+  return null;
+};
+
+const EBML_ID = 0x1A45DFA3;
+const SEGMENT_ID = 0x18538067;
+const SEEK_HEAD_ID = 0x114D9B74;
+const INFO_ID = 0x1549A966;
+const TRACKS_ID = 0x1654AE6B;
+const CUES_ID = 0x1C53BB6B;
+const CLUSTER_ID = 0x1F43B675;
+const TIMECODE_SCALE_ID = 0x2AD7B1;
+const DURATION_ID = 0x4489;
+const CLUSTER_TIMECODE_ID = 0xE7;
+// Elements that can appear inside a cluster. MediaRecorder writes clusters of
+// unknown size, which end at the first element that isn't one of these.
+const CLUSTER_CHILD_IDS = new Set([CLUSTER_TIMECODE_ID, 0xA3, 0xA0, 0xAB, 0xA7, 0x5854, 0xBF, 0xEC]);
+// Elements that can appear directly inside the segment.
+const SEGMENT_CHILD_IDS = new Set([SEEK_HEAD_ID, INFO_ID, TRACKS_ID, CUES_ID, CLUSTER_ID, 0x1043A770, 0x1254C367, 0x1941A469, 0xBF, 0xEC]);
+// Stray bytes between elements, e.g. after an Info element that grew without its
+// size being updated, are skipped up to the next of these, as decoders do.
+const RESYNC_IDS = [TRACKS_ID, CUES_ID, CLUSTER_ID];
+const MAX_RESYNC_BYTES = 64 * 1024;
+// Segment header with an unknown size, since a cut holds only part of the segment.
+const UNKNOWN_SIZE_SEGMENT = new Uint8Array([0x18, 0x53, 0x80, 0x67, 0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+
+interface ElementHeader {
+  id: number;
+  // null when the size is unknown.
+  size: number | null;
+  headerLength: number;
+}
+
+// Reads an EBML variable-length integer. IDs keep their length marker bits.
+const readVint = (bytes: Uint8Array, offset: number, isId: boolean) => {
+  const first = bytes[offset] ?? 0;
+  if (first === 0) throw new Error('Invalid EBML variable-length integer.');
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > bytes.length) throw new Error('Truncated EBML variable-length integer.');
+
+  let value = isId ? first : first & (0xFF >> length);
+  let allOnes = value === 0xFF >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xFF;
+  }
+  return { value, length, unknown: !isId && allOnes };
+};
+
+const readElementHeader = async (read: ByteReader, offset: number): Promise<ElementHeader> => {
+  const bytes = await read(offset, 12);
+  const id = readVint(bytes, 0, true);
+  const size = readVint(bytes, id.length, false);
+  return { id: id.value, size: size.unknown ? null : size.value, headerLength: id.length + size.length };
+};
+
+// Reads the element header at `offset`, or returns null if there is no
+// segment-level element there.
+const readSegmentChild = async (read: ByteReader, offset: number): Promise<ElementHeader | null> => {
+  try {
+    const header = await readElementHeader(read, offset);
+    return SEGMENT_CHILD_IDS.has(header.id) ? header : null;
+  } catch {
+    return null;
+  }
+};
+
+const findResyncPoint = async (read: ByteReader, offset: number, end: number): Promise<number | null> => {
+  const limit = Math.min(end, offset + MAX_RESYNC_BYTES);
+  for (let position = offset; position + 4 <= limit; position++) {
+    if (RESYNC_IDS.includes(viewOf(await read(position, 4)).getUint32(0))) return position;
+  }
+  return null;
+};
+
+const readUint = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+const readFloat = (bytes: Uint8Array) =>
+  bytes.length === 4 ? viewOf(bytes).getFloat32(0) : viewOf(bytes).getFloat64(0);
+
+const indexWebm = async (blob: Blob, read: ByteReader): Promise<WindowIndex | null> => {
+  const magic = await read(0, 4);
+  if (magic.length < 4 || viewOf(magic).getUint32(0) !== EBML_ID) return null;
+  const ebml = await readElementHeader(read, 0);
+  if (ebml.id !== EBML_ID || ebml.size === null) return null;
+  const segmentOffset = ebml.headerLength + ebml.size;
+  const segment = await readElementHeader(read, segmentOffset);
+  if (segment.id !== SEGMENT_ID) return null;
+  const segmentEnd = segment.size === null
+    ? blob.size
+    : Math.min(blob.size, segmentOffset + segment.headerLength + segment.size);
+
+  let timecodeScale = 1000000;
+  let duration: number | null = null;
+  let tracks: Blob | null = null;
+  const clusters: { start: number; end: number; timecode: number }[] = [];
+
+  let offset = segmentOffset + segment.headerLength;
+  while (offset < segmentEnd) {
+    const element = await readSegmentChild(read, offset);
+    if (!element) {
+      const resyncPoint = await findResyncPoint(read, offset + 1, segmentEnd);
+      if (resyncPoint === null) return null;
+      offset = resyncPoint;
+      continue;
+    }
+    const contentStart = offset + element.headerLength;
+
+    if (element.id === CLUSTER_ID) {
+      const contentEnd = element.size === null ? segmentEnd : contentStart + element.size;
+      let timecode: number | null = null;
+      let child = contentStart;
+      // Clusters of known size are skipped once their timecode is found.
+      while (child < contentEnd && (timecode === null || element.size === null)) {
+        // A recording cut short, e.g. by a crash, may end inside an element.
+        const header = await readElementHeader(read, child).catch(() => null);
+        if (!header) break;
+        if (element.size === null && !CLUSTER_CHILD_IDS.has(header.id)) break;
+        if (header.size === null) return null;
+        if (header.id === CLUSTER_TIMECODE_ID) {
+          timecode = readUint(await read(child + header.headerLength, header.size));
+        }
+        child += header.headerLength + header.size;
+      }
+      if (timecode === null) return null;
+      const end = element.size === null ? child : contentEnd;
+      clusters.push({ start: offset, end, timecode });
+      offset = end;
+      continue;
+    }
+
+    if (element.size === null) return null;
+    if (element.id === TRACKS_ID) {
+      tracks = blob.slice(offset, contentStart + element.size);
+    }
+    if (element.id === INFO_ID) {
+      let child = contentStart;
+      while (child < contentStart + element.size) {
+        const header = await readElementHeader(read, child);
+        if (header.size === null || child + header.headerLength + header.size > contentStart + element.size) break;
+        const value = await read(child + header.headerLength, header.size);
+        if (header.id === TIMECODE_SCALE_ID) timecodeScale = readUint(value);
+        if (header.id === DURATION_ID) duration = readFloat(value);
+        child += header.headerLength + header.size;
+      }
+    }
+    offset = contentStart + element.size;
+  }
+  if (!tracks || clusters.length === 0) return null;
+
+  // Cuts get an Info element of their own with just the timecode scale, and leave
+  // out the seek index and cues, whose positions would be wrong.
+  const info = new Uint8Array([0x15, 0x49, 0xA9, 0x66, 0x88, 0x2A, 0xD7, 0xB1, 0x84, 0, 0, 0, 0]);
+  viewOf(info).setUint32(9, timecodeScale);
+  const headers = [blob.slice(0, segmentOffset), UNKNOWN_SIZE_SEGMENT, info, tracks];
+
+  const toSeconds = (timecode: number) => timecode * timecodeScale / 1e9;
+  // Cuts out the clusters from `first` up to, but not including, `last`.
+  const cutClusters = (first: number, last: number): AudioCut => ({
+    blob: new Blob([...headers, blob.slice(clusters[first].start, clusters[last - 1].end)], { type: blob.type }),
+    startSeconds: toSeconds(clusters[first].timecode),
+  });
+
+  let durationSeconds = duration === null ? 0 : toSeconds(duration);
+  if (duration === null) {
+    const lastCluster = cutClusters(clusters.length - 1, clusters.length);
+    const decoded = await decodeAudioBlob(lastCluster.blob);
+    durationSeconds = lastCluster.startSeconds + decoded.duration;
+  }
+
+  return {
+    durationSeconds,
+    cut: (startSeconds, endSeconds) => {
+      let first = 0;
+      while (first + 1 < clusters.length && toSeconds(clusters[first + 1].timecode) <= startSeconds) first++;
+      let last = first + 1;
+      while (last < clusters.length && toSeconds(clusters[last].timecode) < endSeconds) last++;
+      return cutClusters(first, last);
+    },
+  };
+};
+
+// Prepares to read a recording in stretches, decoded at `sampleRate`. Files that
+// can't be cut are decoded whole here.
+export const createWindowReader = async (blob: Blob, sampleRate: number): Promise<WindowReader> => {
+  const read = createByteReader(blob);
+  let index: WindowIndex | null = null;
+  try {
+    index = await indexWav(blob, read) ?? await indexWebm(blob, read);
+  } catch (err) {
+    console.warn("Could not index the recording, decoding it whole:", err);
+  }
+
+  let whole: Promise<AudioBuffer> | null = index ? null : decodeAudioBlob(blob, sampleRate);
+  const readWhole = async (startSeconds: number, endSeconds: number) => {
+    whole ??= decodeAudioBlob(blob, sampleRate);
+    return sliceAudioBuffer(await whole, startSeconds, endSeconds, true);
+  };
+
+  return {
+    durationSeconds: index ? index.durationSeconds : (await whole!).duration,
+    read: async (startSeconds, endSeconds) => {
+      if (index) {
+        const cut = index.cut(startSeconds, endSeconds);
+        try {
+          const decoded = await decodeAudioBlob(cut.blob, sampleRate);
+          return sliceAudioBuffer(decoded, startSeconds - cut.startSeconds, endSeconds - cut.startSeconds, true);
+        } catch (err) {
+          console.warn("Could not decode part of the recording, decoding it whole:", err);
+          index = null;
+        }
+      }
+      return readWhole(startSeconds, endSeconds);
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import type { AudioActivity, ConversationAnalytics, Notes, Sentiment, SpeakerStats, TopicSentiment, TranscriptSegment } from '../types';
+import { ANALYTICS_MIN_PAUSE_SECONDS, INTERRUPTION_MIN_OVERLAP_SECONDS } from '../constants';
+import { findSilentRanges, TimeRange } from './silenceTrimmer';
+
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+
+// Speech found in a recording track, which may have been measured piece by piece.
+export interface TrackSpeech {
+  label?: string;
+  durationSeconds: number;
+  speech: TimeRange[];
+}
+
+const totalLength = (ranges: TimeRange[]) =>
+  ranges.reduce((total, range) => total + (range.endSeconds - range.startSeconds), 0);
+
+// Seconds of `ranges` that fall between `start` and `end`.
+const lengthWithin = (ranges: TimeRange[], start: number, end: number) =>
+  ranges.reduce((total, range) =>
+    total + Math.max(0, Math.min(range.endSeconds, end) - Math.max(range.startSeconds, start)), 0);
+
+// Stretches of a track with speech: everything except pauses of at least
+// ANALYTICS_MIN_PAUSE_SECONDS. `buffer` holds the track from `startSeconds`, and
+// only speech before `endSeconds` is returned, so that overlapping pieces of a
+// track can each be measured up to where the next one starts.
+export const findSpeechRanges = (
+  buffer: AudioBuffer,
+  startSeconds = 0,
+  endSeconds = startSeconds + buffer.duration,
+): TimeRange[] => {
+  const ranges: TimeRange[] = [];
+  const addRange = (start: number, end: number) => {
+    const clippedEnd = Math.min(end, endSeconds);
+    if (clippedEnd > start) ranges.push({ startSeconds: start, endSeconds: clippedEnd });
+  };
+  let start = startSeconds;
+  for (const silence of findSilentRanges(buffer, ANALYTICS_MIN_PAUSE_SECONDS, 0)) {
+    addRange(start, startSeconds + silence.startSeconds);
+    start = startSeconds + silence.endSeconds;
+  }
+  addRange(start, startSeconds + buffer.duration);
+  return ranges;
+};
+
+// Ranges covered by any of the lists.
+const unionOf = (lists: TimeRange[][]): TimeRange[] => {
+  const sorted = lists.flat().sort((a, b) => a.startSeconds - b.startSeconds);
+  const merged: TimeRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.startSeconds <= last.endSeconds) {
+      last.endSeconds = Math.max(last.endSeconds, range.endSeconds);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged;
+};
+
+// Ranges covered by both lists, which must be sorted and free of overlaps.
+const intersectionOf = (a: TimeRange[], b: TimeRange[]): TimeRange[] => {
+  const result: TimeRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].startSeconds, b[j].startSeconds);
+    const end = Math.min(a[i].endSeconds, b[j].endSeconds);
+    if (end > start) result.push({ startSeconds: start, endSeconds: end });
+    if (a[i].endSeconds < b[j].endSeconds) i++;
+    else j++;
+  }
+  return result;
+};
+
+const analyzeTracks = (tracks: TrackSpeech[]): { activity: AudioActivity; speech: TimeRange[] } => {
+  const trackSpeech = tracks.map(track => unionOf([track.speech]));
+  const speech = unionOf(trackSpeech);
+  const activity: AudioActivity = {
+    durationSeconds: Math.max(...tracks.map(track => track.durationSeconds)),
+    speechSeconds: totalLength(speech),
+  };
+  if (tracks.length === 2) {
+    activity.tracks = tracks.map((track, i) => ({ label: track.label ?? `Track ${i + 1}`, speechSeconds: totalLength(trackSpeech[i]) }));
+    activity.overlapSeconds = totalLength(intersectionOf(trackSpeech[0], trackSpeech[1]));
+  }
+  return { activity, speech };
+};
+
+// Questions are counted per question mark, so "Really?? Why?" is two.
+const countQuestions = (text: string) => text.match(/[?？]+/g)?.length ?? 0;
+
+// Works out who talked how much from the transcript. With `speech` from the audio,
+// pauses within turns don't count as talk time.
+const buildSpeakerStats = (transcript: TranscriptSegment[], speech?: TimeRange[]): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>();
+  const statsFor = (speaker: string) => {
+    if (!stats.has(speaker)) {
+      stats.set(speaker, { speaker, talkSeconds: 0, turns: 0, longestMonologueSeconds: 0, questions: 0, interruptions: 0 });
+    }
+    return stats.get(speaker)!;
+  };
+
+  let previous: { speaker: string; startSeconds: number; endSeconds: number } | null = null;
+  let run: typeof previous = null;
+  const closeRun = () => {
+    if (!run) return;
+    const speaker = statsFor(run.speaker);
+    speaker.longestMonologueSeconds = Math.max(speaker.longestMonologueSeconds, run.endSeconds - run.startSeconds);
+    previous = run;
+  };
+
+  transcript.forEach(turn => {
+    const name = turn.speaker.trim() || 'Unknown';
+    const speaker = statsFor(name);
+    const end = Math.max(turn.startSeconds, turn.endSeconds);
+    speaker.talkSeconds += speech ? lengthWithin(speech, turn.startSeconds, end) : end - turn.startSeconds;
+    speaker.questions += countQuestions(turn.text);
+
+    if (run && run.speaker === name) {
+      run.endSeconds = Math.max(run.endSeconds, end);
+      return;
+    }
+    closeRun();
+    speaker.turns++;
+    if (previous && previous.endSeconds - turn.startSeconds >= INTERRUPTION_MIN_OVERLAP_SECONDS) {
+      speaker.interruptions++;
+    }
+    run = { speaker: name, startSeconds: turn.startSeconds, endSeconds: end };
+  });
+  closeRun();
+
+  return [...stats.values()].sort((a, b) => b.talkSeconds - a.talkSeconds);
+};
+
+// The model's topic sentiment, limited to known ratings and scores in range.
+const readTopicSentiment = (value: unknown): TopicSentiment[] => {
+  if (!Array.isArray(value)) return [];
+  return (value as TopicSentiment[])
+    .filter(item => item?.topic && SENTIMENTS.includes(item.sentiment))
+    .map(item => ({ ...item, score: Math.max(-1, Math.min(1, Number(item.score) || 0)) }));
+};
+
+// Completes the analytics of generated notes, which hold only the model's topic
+// sentiment, with statistics from the transcript and, when `tracks` is not
+// empty, from the audio itself.
+export const addAnalytics = (notes: Notes, tracks: TrackSpeech[]): Notes => {
+  const audio = tracks.length > 0 ? analyzeTracks(tracks) : undefined;
+  const analytics: ConversationAnalytics = {
+    speakers: buildSpeakerStats(notes.transcript ?? [], audio?.speech),
+    topicSentiment: readTopicSentiment(notes.analytics?.topicSentiment),
+    ...(audio ? { audio: audio.activity } : {}),
+  };
+  return { ...notes, analytics };
+};
+
+// Formats seconds as m:ss, or h:mm:ss from an hour.
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,278 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Notes, NoteTemplate, NoteUsage } from '../types';
+import { BUILT_IN_TEMPLATES } from './templates';
+import type { NoteRecord } from './db';
+
+const DB_NAME = 'VoiceNotesDB';
+const LECTURE = BUILT_IN_TEMPLATES.find(template => template.id === 'lecture') as NoteTemplate;
+
+// db.ts keeps its connection in a module variable, so every test gets a fresh
+// copy of the module along with a fresh database.
+const loadDb = () => import('./db');
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+});
+
+// Creates the database as an older version of the app left it. `createStores`
+// recreates that version's schema, since the released migrations must match it.
+const createDatabase = (version: number, createStores: (db: IDBDatabase) => void, records: Record<string, object[]>) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => createStores(request.result);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction(Object.keys(records), 'readwrite');
+      Object.entries(records).forEach(([store, values]) => values.forEach(value => transaction.objectStore(store).put(value)));
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+
+const createV1Stores = (db: IDBDatabase) => {
+  db.createObjectStore('notes', { keyPath: 'id' });
+};
+
+const createV2Stores = (db: IDBDatabase) => {
+  createV1Stores(db);
+  db.createObjectStore('recordingSessions', { keyPath: 'id' });
+  db.createObjectStore('recordingChunks', { keyPath: 'id', autoIncrement: true }).createIndex('sessionId', 'sessionId', { unique: false });
+};
+
+const createV3Stores = (db: IDBDatabase) => {
+  createV2Stores(db);
+  db.createObjectStore('searchIndex', { keyPath: 'noteId' });
+};
+
+const createV4Stores = (db: IDBDatabase) => {
+  createV3Stores(db);
+  const metaStore = db.createObjectStore('noteMeta', { keyPath: 'id' });
+  metaStore.createIndex('createdAt', 'createdAt', { unique: false });
+  metaStore.createIndex('title', 'title', { unique: false });
+};
+
+// Version 5 only rewrote the stored notes.
+const createV5Stores = createV4Stores;
+
+const meetingNotes = (title: string): Notes => ({
+  title,
+  summary: `Summary of ${title}`,
+  participants: [{ name: 'Priya', role: 'PM' }],
+  topics: [],
+  decisions: ['Ship it'],
+  actionItems: [{ task: 'Write the docs', assignee: 'Sam' }],
+});
+
+const usage: NoteUsage = {
+  createdAt: new Date('2024-03-02T10:00:00Z'),
+  model: 'gemini-2.5-flash',
+  audioSeconds: 60,
+  inputTokens: 2000,
+  outputTokens: 500,
+  costUsd: 0.01,
+};
+
+// Notes saved by older versions: a meeting note from before templates, a lecture
+// note with its custom sections at the top level, and a note with versions.
+const oldNotes = () => [
+  {
+    id: 'note_1',
+    createdAt: new Date('2024-01-01T09:00:00Z'),
+    notes: meetingNotes('budget review'),
+    audioBlob: new Blob(['0123456789'], { type: 'audio/webm' }),
+  },
+  {
+    id: 'note_2',
+    createdAt: new Date('2024-02-01T09:00:00Z'),
+    notes: { title: 'Algebra', summary: 'Groups', learningObjectives: ['Define a group'], topics: [], definitions: [] },
+    audioBlob: null,
+    template: LECTURE,
+  },
+  {
+    id: 'note_3',
+    createdAt: new Date('2024-03-01T09:00:00Z'),
+    notes: meetingNotes('Weekly sync'),
+    audioBlob: new Blob(['01234'], { type: 'audio/webm' }),
+    sourceTracks: { mic: new Blob(['012'], { type: 'audio/webm' }), system: new Blob(['01'], { type: 'audio/webm' }) },
+    versions: [
+      { id: 'version_1', createdAt: new Date('2024-03-01T09:00:00Z'), notes: meetingNotes('Weekly sync'), usage },
+      {
+        id: 'version_2',
+        createdAt: new Date('2024-03-02T10:00:00Z'),
+        notes: { title: 'Weekly sync (lecture)', summary: '', learningObjectives: ['Plan'], topics: [] },
+        template: LECTURE,
+        translations: [{ language: 'de', notes: { title: 'Wöchentlich', summary: '', learningObjectives: ['Planen'] }, createdAt: new Date() }],
+        usage: { ...usage, createdAt: new Date('2024-03-02T11:00:00Z') },
+      },
+    ],
+    primaryVersionId: 'version_1',
+  },
+];
+
+// The notes above as version 5 left them, with custom sections in `notes.sections`.
+const notesWithSections = () => {
+  const [meeting, lecture, versioned] = oldNotes();
+  const [first, second] = versioned.versions;
+  return [
+    meeting,
+    {
+      ...lecture,
+      notes: {
+        title: 'Algebra',
+        summary: 'Groups',
+        participants: [],
+        topics: [],
+        definitions: [],
+        decisions: [],
+        actionItems: [],
+        sections: { learningObjectives: ['Define a group'] },
+      },
+    },
+    {
+      ...versioned,
+      versions: [
+        first,
+        {
+          ...second,
+          notes: { ...meetingNotes('Weekly sync (lecture)'), summary: '', participants: [], decisions: [], actionItems: [], sections: { learningObjectives: ['Plan'] } },
+          translations: [{ ...second.translations[0], notes: { ...meetingNotes('Wöchentlich'), summary: '', participants: [], decisions: [], actionItems: [], sections: { learningObjectives: ['Planen'] } } }],
+        },
+      ],
+    },
+  ];
+};
+
+// The history entries of the notes above, as version 4 wrote them.
+const oldMeta = () => [
+  { id: 'note_1', title: 'budget review', createdAt: new Date('2024-01-01T09:00:00Z'), sizeBytes: 10, hasAudio: true, usage: [] },
+  { id: 'note_2', title: 'Algebra', createdAt: new Date('2024-02-01T09:00:00Z'), sizeBytes: 0, hasAudio: false, usage: [] },
+  {
+    id: 'note_3',
+    title: 'Weekly sync',
+    createdAt: new Date('2024-03-01T09:00:00Z'),
+    sizeBytes: 10,
+    hasAudio: true,
+    usage: [usage, { ...usage, createdAt: new Date('2024-03-02T11:00:00Z') }],
+  },
+];
+
+const storeNames = async () => {
+  const { initDB } = await loadDb();
+  return [...(await initDB()).objectStoreNames].sort();
+};
+
+const indexNames = async (store: string) => {
+  const { initDB } = await loadDb();
+  return [...(await initDB()).transaction(store).objectStore(store).indexNames].sort();
+};
+
+const CURRENT_STORES = ['noteMeta', 'notes', 'recordingChunks', 'recordingSessions', 'searchIndex', 'usageLedger'];
+
+describe('database migrations', () => {
+  it('creates every store and index in a new database', async () => {
+    expect(await storeNames()).toEqual(CURRENT_STORES);
+    expect(await indexNames('noteMeta')).toEqual(['createdAt', 'title']);
+    expect(await indexNames('recordingChunks')).toEqual(['sessionId']);
+    const { getAllNotesMeta, getAllUsageRecords } = await loadDb();
+    expect(await getAllNotesMeta()).toEqual([]);
+    expect(await getAllUsageRecords()).toEqual([]);
+  });
+
+  describe.each([
+    { version: 1, createStores: createV1Stores, records: () => ({ notes: oldNotes() }) },
+    { version: 2, createStores: createV2Stores, records: () => ({ notes: oldNotes() }) },
+    { version: 3, createStores: createV3Stores, records: () => ({ notes: oldNotes() }) },
+    { version: 4, createStores: createV4Stores, records: () => ({ notes: oldNotes(), noteMeta: oldMeta() }) },
+    { version: 5, createStores: createV5Stores, records: () => ({ notes: notesWithSections(), noteMeta: oldMeta() }) },
+  ])('from version $version', ({ version, createStores, records }) => {
+    beforeEach(() => createDatabase(version, createStores, records()));
+
+    it('adds the missing stores and indexes', async () => {
+      expect(await storeNames()).toEqual(CURRENT_STORES);
+      expect(await indexNames('noteMeta')).toEqual(['createdAt', 'title']);
+      expect(await indexNames('recordingChunks')).toEqual(['sessionId']);
+    });
+
+    it('fills the meta store from the stored notes', async () => {
+      const { getAllNotesMeta } = await loadDb();
+      const byId = Object.fromEntries((await getAllNotesMeta()).map(item => [item.id, item]));
+      expect(byId.note_1).toEqual({
+        id: 'note_1', title: 'budget review', createdAt: new Date('2024-01-01T09:00:00Z'), sizeBytes: 10, hasAudio: true, usage: [],
+      });
+      expect(byId.note_2).toMatchObject({ title: 'Algebra', sizeBytes: 0, hasAudio: false, usage: [] });
+      expect(byId.note_3).toMatchObject({ title: 'Weekly sync', sizeBytes: 10, hasAudio: true });
+      expect(byId.note_3.usage).toHaveLength(2);
+    });
+
+    it('lists notes newest first or by title', async () => {
+      const { getAllNotesMeta } = await loadDb();
+      expect((await getAllNotesMeta()).map(item => item.id)).toEqual(['note_3', 'note_2', 'note_1']);
+      // Titles are compared by code point, so lowercase sorts after uppercase.
+      expect((await getAllNotesMeta('title')).map(item => item.title)).toEqual(['Algebra', 'Weekly sync', 'budget review']);
+    });
+
+    it('moves custom template sections into notes.sections', async () => {
+      const { getNote } = await loadDb();
+      const lecture = await getNote('note_2');
+      expect(lecture?.notes).toEqual({
+        title: 'Algebra',
+        summary: 'Groups',
+        participants: [],
+        topics: [],
+        definitions: [],
+        decisions: [],
+        actionItems: [],
+        sections: { learningObjectives: ['Define a group'] },
+      });
+
+      const meeting = await getNote('note_1');
+      expect(meeting?.notes).toEqual(meetingNotes('budget review'));
+      expect(meeting?.audioBlob?.size).toBe(10);
+
+      const [first, second] = (await getNote('note_3'))?.versions ?? [];
+      expect(first.notes).toEqual(meetingNotes('Weekly sync'));
+      expect(second.notes.sections).toEqual({ learningObjectives: ['Plan'] });
+      expect(second.translations?.[0].notes.sections).toEqual({ learningObjectives: ['Planen'] });
+    });
+
+    it('copies the usage of existing versions into the usage ledger', async () => {
+      const { getAllUsageRecords } = await loadDb();
+      const records = await getAllUsageRecords();
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({ ...usage, kind: 'notes', outcome: 'completed' });
+      expect(records.every(record => typeof record.id === 'number')).toBe(true);
+    });
+  });
+
+  it('counts notes that store only their source tracks as having audio', async () => {
+    const { addNote, getAllNotesMeta } = await loadDb();
+    const [, , withTracks] = oldNotes();
+    await addNote({ ...withTracks, audioBlob: null } as NoteRecord);
+    expect(await getAllNotesMeta()).toMatchObject([{ id: 'note_3', sizeBytes: 5, hasAudio: true }]);
+  });
+
+  it('keeps recording sessions, chunks and the search index', async () => {
+    const session = { id: 'session_1', startedAt: new Date(), updatedAt: new Date(), mimeType: 'audio/webm', durationSeconds: 4 };
+    await createDatabase(3, createV3Stores, {
+      notes: [],
+      recordingSessions: [session],
+      recordingChunks: [
+        { sessionId: 'session_1', data: new Blob(['ab']) },
+        { sessionId: 'session_1', data: new Blob(['cde']) },
+      ],
+      searchIndex: [{ noteId: 'note_1', title: 'Old', createdAt: new Date(), chunks: [] }],
+    });
+
+    const { getLatestRecordingSession, getRecordingChunks, getAllSearchIndexEntries } = await loadDb();
+    expect(await getLatestRecordingSession()).toMatchObject({ id: 'session_1' });
+    expect((await getRecordingChunks('session_1')).map(chunk => chunk.size)).toEqual([2, 3]);
+    expect((await getAllSearchIndexEntries()).map(entry => entry.noteId)).toEqual(['note_1']);
+  });
+});
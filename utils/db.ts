@@ -1,17 +1,264 @@
-import { Notes } from '../types';
+import { Notes, SourceTrack, SourceTracks, Marker, HistoryItem, NoteTemplate, ChatMessage, NoteTranslation, NoteUsage, UsageRecord, TopicSentiment } from '../types';
 
 const DB_NAME = 'VoiceNotesDB';
-const DB_VERSION = 1;
 const STORE_NAME = 'notes';
+// A HistoryItem per note, written alongside it so that the history list can be
+// read without loading audio.
+const META_STORE_NAME = 'noteMeta';
+const SESSIONS_STORE_NAME = 'recordingSessions';
+const CHUNKS_STORE_NAME = 'recordingChunks';
+const SEARCH_INDEX_STORE_NAME = 'searchIndex';
+// Append-only record of the usage of every request, which budgets are checked against.
+const USAGE_STORE_NAME = 'usageLedger';
 
 export interface NoteRecord {
   id: string;
   createdAt: Date;
   notes: Notes;
-  audioBlob: Blob;
+  // Null when the audio could not be stored because the storage quota ran out,
+  // and for notes with source tracks, whose mix is rebuilt from them when needed.
+  audioBlob: Blob | null;
+  // Separate mic and system recordings, present when both sources were captured.
+  // Notes saved before the mix was dropped hold both.
+  sourceTracks?: SourceTracks;
+  markers?: Marker[];
+  // Snapshot of the template the notes were generated with, so they still render
+  // if the template is later edited or deleted. Missing for meeting notes saved
+  // before templates existed.
+  template?: NoteTemplate;
+  // Every generation of these notes, oldest first. `notes` and `template` above
+  // mirror the primary version, so readers that only need the primary notes can
+  // ignore this. Missing for records saved before versions existed.
+  versions?: NoteVersion[];
+  primaryVersionId?: string;
+  // Follow-up questions asked about the recording and their answers.
+  chat?: ChatMessage[];
 }
 
-let db: IDBDatabase;
+// One generation of the notes for a recording.
+export interface NoteVersion {
+  id: string;
+  createdAt: Date;
+  notes: Notes;
+  template?: NoteTemplate;
+  // Provider and model that produced the notes, e.g. "Google Gemini (gemini-2.5-flash)".
+  // Unknown for notes saved before versions existed.
+  model?: string;
+  // At most one per language.
+  translations?: NoteTranslation[];
+  // Missing for notes generated before usage was recorded.
+  usage?: NoteUsage;
+}
+
+// Id of the version synthesized for records saved before versions existed.
+const ORIGINAL_VERSION_ID = 'original';
+
+export const noteVersions = (record: NoteRecord): NoteVersion[] =>
+  record.versions ?? [{ id: ORIGINAL_VERSION_ID, createdAt: record.createdAt, notes: record.notes, template: record.template }];
+
+export const primaryVersionId = (record: NoteRecord): string =>
+  record.primaryVersionId ?? ORIGINAL_VERSION_ID;
+
+// An in-progress recording whose chunks are flushed to the database while it runs,
+// so it can be rebuilt after a crash or reload.
+export interface RecordingSession {
+  id: string;
+  startedAt: Date;
+  updatedAt: Date;
+  mimeType: string;
+  durationSeconds: number;
+  markers?: Marker[];
+}
+
+// A searchable passage of a note: its summary, one section or a stretch of the transcript.
+export interface SearchChunk {
+  label: string;
+  text: string;
+  // Where the passage starts in the recording, for transcript passages.
+  startSeconds?: number;
+  // Term frequencies of the tokenized text, and its length in tokens.
+  terms: Record<string, number>;
+  length: number;
+}
+
+// The search index entry of one note, built from its primary version.
+export interface SearchIndexEntry {
+  noteId: string;
+  title: string;
+  createdAt: Date;
+  chunks: SearchChunk[];
+}
+
+interface RecordingChunk {
+  id?: number;
+  sessionId: string;
+  data: Blob;
+  // Set for chunks of a per-source track; unset for the mixed recording.
+  track?: SourceTrack;
+}
+
+// Bytes of audio held by a note, including its separate source tracks.
+export const noteAudioSize = (note: NoteRecord): number =>
+    (note.audioBlob?.size ?? 0) + (note.sourceTracks ? note.sourceTracks.mic.size + note.sourceTracks.system.size : 0);
+
+// Builds the history list entry of a note.
+const toHistoryItem = (record: NoteRecord): HistoryItem => ({
+    id: record.id,
+    title: record.notes.title,
+    createdAt: record.createdAt,
+    sizeBytes: noteAudioSize(record),
+    hasAudio: record.audioBlob !== null || record.sourceTracks !== undefined,
+    usage: noteVersions(record).flatMap(version => (version.usage ? [version.usage] : [])),
+});
+
+// One schema change. `migrate` upgrades the database from the previous version
+// to `version` inside the upgrade transaction, so a failing step rolls back the
+// whole upgrade.
+interface Migration {
+  version: number;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Every schema change, oldest first. A database is upgraded by running the steps
+// newer than its version in order. Released steps must never change; add a new
+// step instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: db => {
+      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    migrate: db => {
+      db.createObjectStore(SESSIONS_STORE_NAME, { keyPath: 'id' });
+      // Auto-incrementing keys preserve the order in which chunks were written.
+      const chunkStore = db.createObjectStore(CHUNKS_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      chunkStore.createIndex('sessionId', 'sessionId', { unique: false });
+    },
+  },
+  {
+    version: 3,
+    migrate: db => {
+      db.createObjectStore(SEARCH_INDEX_STORE_NAME, { keyPath: 'noteId' });
+    },
+  },
+  {
+    version: 4,
+    migrate: (db, transaction) => {
+      const metaStore = db.createObjectStore(META_STORE_NAME, { keyPath: 'id' });
+      metaStore.createIndex('createdAt', 'createdAt', { unique: false });
+      metaStore.createIndex('title', 'title', { unique: false });
+      // The history entry as it was built when this step was released. Records
+      // without versions have no usage.
+      const historyItem = (record: NoteRecord): HistoryItem => ({
+        id: record.id,
+        title: record.notes.title,
+        createdAt: record.createdAt,
+        sizeBytes: (record.audioBlob?.size ?? 0) + (record.sourceTracks ? record.sourceTracks.mic.size + record.sourceTracks.system.size : 0),
+        hasAudio: record.audioBlob !== null,
+        usage: (record.versions ?? []).flatMap(version => (version.usage ? [version.usage] : [])),
+      });
+      // Existing notes are read once here, with their audio, to fill the new store.
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        metaStore.put(historyItem(cursor.value));
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 5,
+    migrate: (_db, transaction) => {
+      // Custom template sections moved from the top level of Notes into
+      // `notes.sections`. Translations use the template of their version.
+      // Sections that stayed in the typed fields of Notes, with the kind each had.
+      const typedSectionKinds = new Map<string, string>([
+        ['participants', 'participants'],
+        ['topics', 'topics'],
+        ['definitions', 'definitions'],
+        ['decisions', 'list'],
+        ['actionItems', 'actionItems'],
+      ]);
+      // Notes without a template are meeting notes, whose sections are all typed.
+      const meetingSections = [...typedSectionKinds].map(([key, kind]) => ({ key, kind }));
+      const normalize = (notes: Notes, template?: NoteTemplate): Notes => {
+        const stored = notes as unknown as Record<string, unknown>;
+        const { title, summary, transcript, topicSentiment, analytics } = stored;
+        const normalized: Notes = {
+          title: typeof title === 'string' ? title : '',
+          summary: typeof summary === 'string' ? summary : '',
+          participants: [],
+          topics: [],
+          decisions: [],
+          actionItems: [],
+          ...(Array.isArray(transcript) ? { transcript: transcript as Notes['transcript'] } : {}),
+        };
+        if (analytics && typeof analytics === 'object') {
+          normalized.analytics = analytics as Notes['analytics'];
+        } else if (Array.isArray(topicSentiment)) {
+          normalized.analytics = { speakers: [], topicSentiment: topicSentiment as TopicSentiment[] };
+        }
+        (template?.sections ?? meetingSections).forEach(({ key, kind }) => {
+          if (!Object.hasOwn(stored, key)) return;
+          if (typedSectionKinds.get(key) === kind) {
+            (normalized as unknown as Record<string, unknown>)[key] = stored[key];
+          } else {
+            normalized.sections = { ...normalized.sections, [key]: stored[key] };
+          }
+        });
+        return normalized;
+      };
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const record: NoteRecord = cursor.value;
+        cursor.update({
+          ...record,
+          notes: normalize(record.notes, record.template),
+          ...(record.versions ? {
+            versions: record.versions.map(version => ({
+              ...version,
+              notes: normalize(version.notes, version.template),
+              ...(version.translations ? {
+                translations: version.translations.map(translation => ({ ...translation, notes: normalize(translation.notes, version.template) })),
+              } : {}),
+            })),
+          } : {}),
+        });
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 6,
+    migrate: (db, transaction) => {
+      const usageStore = db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      // Earlier generations are only known from the versions of notes that still
+      // exist. Records without versions have no usage.
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const record: NoteRecord = cursor.value;
+        (record.versions ?? []).forEach(({ usage }) => {
+          if (!usage) return;
+          const record: UsageRecord = { ...usage, kind: 'notes', outcome: 'completed' };
+          usageStore.add(record);
+        });
+        cursor.continue();
+      };
+    },
+  },
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let db: IDBDatabase | undefined;
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -26,16 +273,29 @@ export const initDB = (): Promise<IDBDatabase> => {
       reject('IndexedDB error');
     };
 
+    request.onblocked = () => {
+      console.warn('Database upgrade is waiting for other tabs of the app to close.');
+    };
+
     request.onsuccess = () => {
       db = request.result;
+      // Let a newer version of the app in another tab upgrade the database. The
+      // next call reopens it, and fails if this tab's code is now outdated.
+      db.onversionchange = () => {
+        db?.close();
+        db = undefined;
+      };
       resolve(db);
     };
 
-    request.onupgradeneeded = () => {
+    request.onupgradeneeded = (event) => {
       const dbInstance = request.result;
-      if (!dbInstance.objectStoreNames.contains(STORE_NAME)) {
-        dbInstance.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
+      const transaction = request.transaction;
+      // Always set during an upgrade. Throwing aborts the upgrade and fails the open.
+      if (!transaction) throw new Error('Database upgrade started without a transaction.');
+      MIGRATIONS
+        .filter(migration => migration.version > event.oldVersion)
+        .forEach(migration => migration.migrate(dbInstance, transaction));
     };
   });
 };
@@ -43,7 +303,7 @@ export const initDB = (): Promise<IDBDatabase> => {
 export const addNote = async (note: NoteRecord): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
     
     transaction.oncomplete = () => {
       resolve();
@@ -54,29 +314,38 @@ export const addNote = async (note: NoteRecord): Promise<void> => {
       reject(transaction.error);
     };
 
+    // Quota errors surface when the transaction commits, as an abort rather than a request error.
+    transaction.onabort = () => {
+      reject(transaction.error);
+    };
+
     const store = transaction.objectStore(STORE_NAME);
     store.add(note);
+    transaction.objectStore(META_STORE_NAME).put(toHistoryItem(note));
   });
 };
 
-export const getAllNotesMeta = async (): Promise<{ id: string; title: string; createdAt: Date }[]> => {
+// Orders of the history list, each backed by an index of the meta store.
+export type NotesMetaOrder = 'newest' | 'title';
+
+// Lists notes from the meta store, so no audio is read. Titles are ordered by
+// code point, i.e. case-sensitively.
+export const getAllNotesMeta = async (order: NotesMetaOrder = 'newest'): Promise<HistoryItem[]> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.getAll();
+        const transaction = db.transaction([META_STORE_NAME], 'readonly');
+        const index = transaction.objectStore(META_STORE_NAME).index(order === 'newest' ? 'createdAt' : 'title');
+        const request = index.openCursor(null, order === 'newest' ? 'prev' : 'next');
+        const items: HistoryItem[] = [];
 
         request.onsuccess = () => {
-            const result: NoteRecord[] = request.result;
-            // Sort by newest first
-            result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-            // Map to metadata to avoid loading blobs into memory
-            const meta = result.map(item => ({
-                id: item.id,
-                title: item.notes.title,
-                createdAt: item.createdAt,
-            }));
-            resolve(meta);
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(items);
+                return;
+            }
+            items.push(cursor.value);
+            cursor.continue();
         };
         request.onerror = () => {
             console.error('Error getting all notes:', request.error);
@@ -100,10 +369,73 @@ export const getNote = async (id: string): Promise<NoteRecord | undefined> => {
     });
 }
 
+// Reads a note, applies `update` and writes the result back in one transaction.
+// Resolves with the updated record.
+const updateNote = async (id: string, update: (record: NoteRecord) => NoteRecord): Promise<NoteRecord> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+        let updated: NoteRecord | undefined;
+
+        transaction.oncomplete = () => {
+            if (updated) resolve(updated);
+            else reject(new Error(`Note ${id} not found`));
+        };
+        transaction.onerror = () => {
+            console.error('Transaction error updating note:', transaction.error);
+            reject(transaction.error);
+        };
+        // Quota errors abort the transaction.
+        transaction.onabort = () => reject(transaction.error);
+
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.get(id);
+        request.onsuccess = () => {
+            const record: NoteRecord | undefined = request.result;
+            if (!record) return;
+            updated = update(record);
+            store.put(updated);
+            transaction.objectStore(META_STORE_NAME).put(toHistoryItem(updated));
+        };
+    });
+};
+
+// Stores a regenerated version of a note. The primary version is left unchanged.
+export const addNoteVersion = (id: string, version: NoteVersion): Promise<NoteRecord> =>
+    updateNote(id, record => ({
+        ...record,
+        versions: [...noteVersions(record), version],
+        primaryVersionId: primaryVersionId(record),
+    }));
+
+// Stores a translation of one version, replacing an earlier one in the same language.
+export const addNoteTranslation = (id: string, versionId: string, translation: NoteTranslation): Promise<NoteRecord> =>
+    updateNote(id, record => ({
+        ...record,
+        versions: noteVersions(record).map(version => version.id !== versionId ? version : {
+            ...version,
+            translations: [...(version.translations ?? []).filter(t => t.language !== translation.language), translation],
+        }),
+        primaryVersionId: primaryVersionId(record),
+    }));
+
+// Makes a version the primary one, which is what the history list shows.
+export const setPrimaryNoteVersion = (id: string, versionId: string): Promise<NoteRecord> =>
+    updateNote(id, record => {
+        const versions = noteVersions(record);
+        const version = versions.find(v => v.id === versionId);
+        if (!version) return record;
+        return { ...record, versions, primaryVersionId: versionId, notes: version.notes, template: version.template };
+    });
+
+export const saveNoteChat = (id: string, chat: ChatMessage[]): Promise<NoteRecord> =>
+    updateNote(id, record => ({ ...record, chat }));
+
+// Deletes a note together with its history and search index entries.
 export const deleteNote = async (id: string): Promise<void> => {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
+        const transaction = db.transaction([STORE_NAME, META_STORE_NAME, SEARCH_INDEX_STORE_NAME], 'readwrite');
 
         transaction.oncomplete = () => {
             resolve();
@@ -116,5 +448,278 @@ export const deleteNote = async (id: string): Promise<void> => {
 
         const store = transaction.objectStore(STORE_NAME);
         store.delete(id);
+        transaction.objectStore(META_STORE_NAME).delete(id);
+        transaction.objectStore(SEARCH_INDEX_STORE_NAME).delete(id);
+    });
+};
+
+export const putSearchIndexEntry = async (entry: SearchIndexEntry): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SEARCH_INDEX_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error updating search index:', transaction.error);
+            reject(transaction.error);
+        };
+
+        transaction.objectStore(SEARCH_INDEX_STORE_NAME).put(entry);
+    });
+};
+
+export const deleteSearchIndexEntries = async (noteIds: string[]): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SEARCH_INDEX_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error updating search index:', transaction.error);
+            reject(transaction.error);
+        };
+
+        const store = transaction.objectStore(SEARCH_INDEX_STORE_NAME);
+        noteIds.forEach(id => store.delete(id));
+    });
+};
+
+export const getAllSearchIndexEntries = async (): Promise<SearchIndexEntry[]> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction([SEARCH_INDEX_STORE_NAME], 'readonly').objectStore(SEARCH_INDEX_STORE_NAME).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.error('Error reading search index:', request.error);
+            reject(request.error);
+        };
+    });
+};
+
+export const createRecordingSession = async (session: RecordingSession): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error creating recording session:', transaction.error);
+            reject(transaction.error);
+        };
+
+        transaction.objectStore(SESSIONS_STORE_NAME).put(session);
+    });
+};
+
+// Stores a chunk and bumps the session's duration in one transaction, so the
+// recorded duration always matches the chunks on disk.
+export const appendRecordingChunk = async (sessionId: string, data: Blob, durationSeconds: number, track?: SourceTrack): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME, CHUNKS_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error appending recording chunk:', transaction.error);
+            reject(transaction.error);
+        };
+
+        const chunk: RecordingChunk = { sessionId, data, track };
+        transaction.objectStore(CHUNKS_STORE_NAME).add(chunk);
+
+        const sessionStore = transaction.objectStore(SESSIONS_STORE_NAME);
+        const request = sessionStore.get(sessionId);
+        request.onsuccess = () => {
+            const session: RecordingSession | undefined = request.result;
+            if (session) {
+                sessionStore.put({ ...session, durationSeconds, updatedAt: new Date() });
+            }
+        };
     });
-};
\ No newline at end of file
+};
+
+// Marks a session as still in use without adding a chunk, e.g. while paused.
+export const touchRecordingSession = async (sessionId: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error updating recording session:', transaction.error);
+            reject(transaction.error);
+        };
+
+        const sessionStore = transaction.objectStore(SESSIONS_STORE_NAME);
+        const request = sessionStore.get(sessionId);
+        request.onsuccess = () => {
+            const session: RecordingSession | undefined = request.result;
+            if (session) {
+                sessionStore.put({ ...session, updatedAt: new Date() });
+            }
+        };
+    });
+};
+
+export const saveRecordingSessionMarkers = async (sessionId: string, markers: Marker[]): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error saving recording markers:', transaction.error);
+            reject(transaction.error);
+        };
+
+        const sessionStore = transaction.objectStore(SESSIONS_STORE_NAME);
+        const request = sessionStore.get(sessionId);
+        request.onsuccess = () => {
+            const session: RecordingSession | undefined = request.result;
+            if (session) {
+                sessionStore.put({ ...session, markers });
+            }
+        };
+    });
+};
+
+// Returns the most recently updated session that has at least one stored chunk.
+export const getLatestRecordingSession = async (): Promise<RecordingSession | undefined> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME, CHUNKS_STORE_NAME], 'readonly');
+        const sessionsRequest = transaction.objectStore(SESSIONS_STORE_NAME).getAll();
+        const chunkIndex = transaction.objectStore(CHUNKS_STORE_NAME).index('sessionId');
+
+        sessionsRequest.onsuccess = () => {
+            const sessions: RecordingSession[] = sessionsRequest.result;
+            sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+            const checkNext = (i: number) => {
+                if (i >= sessions.length) {
+                    resolve(undefined);
+                    return;
+                }
+                const countRequest = chunkIndex.count(sessions[i].id);
+                countRequest.onsuccess = () => {
+                    if (countRequest.result > 0) {
+                        resolve(sessions[i]);
+                    } else {
+                        checkNext(i + 1);
+                    }
+                };
+            };
+            checkNext(0);
+        };
+        transaction.onerror = () => {
+            console.error('Error getting recording sessions:', transaction.error);
+            reject(transaction.error);
+        };
+    });
+};
+
+// Returns the chunks of the mixed recording, or of one source track if given.
+export const getRecordingChunks = async (sessionId: string, track?: SourceTrack): Promise<Blob[]> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([CHUNKS_STORE_NAME], 'readonly');
+        const request = transaction.objectStore(CHUNKS_STORE_NAME).index('sessionId').getAll(sessionId);
+
+        request.onsuccess = () => {
+            const chunks = (request.result as RecordingChunk[]).filter(chunk => chunk.track === track);
+            chunks.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+            resolve(chunks.map(chunk => chunk.data));
+        };
+        request.onerror = () => {
+            console.error('Error getting recording chunks:', request.error);
+            reject(request.error);
+        };
+    });
+};
+
+export const deleteRecordingSession = async (sessionId: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME, CHUNKS_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error deleting recording session:', transaction.error);
+            reject(transaction.error);
+        };
+
+        transaction.objectStore(SESSIONS_STORE_NAME).delete(sessionId);
+        const chunkStore = transaction.objectStore(CHUNKS_STORE_NAME);
+        const keysRequest = chunkStore.index('sessionId').getAllKeys(sessionId);
+        keysRequest.onsuccess = () => {
+            keysRequest.result.forEach(key => chunkStore.delete(key));
+        };
+    });
+};
+
+// Deletes the sessions, other than `keepSessionId`, that were last written before
+// `updatedBefore`, together with their chunks and any chunks left without a
+// session. Sessions of recordings running in other tabs are written every few
+// seconds, so they are kept.
+export const deleteStaleRecordingSessions = async (keepSessionId: string | undefined, updatedBefore: Date): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SESSIONS_STORE_NAME, CHUNKS_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error deleting stale recording sessions:', transaction.error);
+            reject(transaction.error);
+        };
+
+        const sessionStore = transaction.objectStore(SESSIONS_STORE_NAME);
+        const chunkStore = transaction.objectStore(CHUNKS_STORE_NAME);
+        const sessionsRequest = sessionStore.getAll();
+        sessionsRequest.onsuccess = () => {
+            const kept = new Set<string>();
+            (sessionsRequest.result as RecordingSession[]).forEach(session => {
+                if (session.id === keepSessionId || session.updatedAt >= updatedBefore) {
+                    kept.add(session.id);
+                } else {
+                    sessionStore.delete(session.id);
+                }
+            });
+            // A key cursor over the index reads session ids without loading the audio.
+            const cursorRequest = chunkStore.index('sessionId').openKeyCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor) return;
+                if (!kept.has(cursor.key as string)) chunkStore.delete(cursor.primaryKey);
+                cursor.continue();
+            };
+        };
+    });
+};
+
+export const addUsageRecord = async (record: UsageRecord): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([USAGE_STORE_NAME], 'readwrite');
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Transaction error recording usage:', transaction.error);
+            reject(transaction.error);
+        };
+
+        transaction.objectStore(USAGE_STORE_NAME).add(record);
+    });
+};
+
+// Every usage record, oldest first.
+export const getAllUsageRecords = async (): Promise<UsageRecord[]> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction([USAGE_STORE_NAME], 'readonly').objectStore(USAGE_STORE_NAME).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.error('Error reading usage:', request.error);
+            reject(request.error);
+        };
+    });
+};
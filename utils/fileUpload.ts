@@ -0,0 +1,125 @@
+import type { RemoteFile } from '../types';
+import { UPLOAD_CHUNK_BYTES, UPLOAD_PROCESSING_POLL_MS, GENERATION_MAX_RETRIES, GENERATION_RETRY_BASE_DELAY_MS } from '../constants';
+import { ProviderRequestError, withRetry, sleep } from './generationErrors';
+
+// Client for the Gemini resumable upload protocol
+// (https://ai.google.dev/gemini-api/docs/files). Any server speaking the same
+// protocol can stand in for the Gemini API, e.g. `npm run upload-server`.
+
+export interface UploadTarget {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+interface FileResource {
+  name: string;
+  uri: string;
+  mimeType?: string;
+  state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+}
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+const authHeaders = (apiKey?: string): Record<string, string> => (apiKey ? { 'x-goog-api-key': apiKey } : {});
+
+const ensureOk = async (response: Response, action: string) => {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ProviderRequestError(response.status, `${action} failed with status ${response.status}: ${detail.slice(0, 500)}`);
+  }
+  return response;
+};
+
+// Asks the server how much of an interrupted upload it received.
+const queryReceivedBytes = async (uploadUrl: string, signal?: AbortSignal): Promise<number> => {
+  const response = await ensureOk(await fetch(uploadUrl, {
+    method: 'POST',
+    signal,
+    headers: { 'X-Goog-Upload-Command': 'query' },
+  }), 'Checking the upload');
+  return Number(response.headers.get('X-Goog-Upload-Size-Received') ?? 0);
+};
+
+const getFile = async ({ baseUrl, apiKey }: UploadTarget, name: string, signal?: AbortSignal): Promise<FileResource> => {
+  const response = await ensureOk(await fetch(`${trimUrl(baseUrl)}/v1beta/${name}`, {
+    signal,
+    headers: authHeaders(apiKey),
+  }), 'Checking the uploaded file');
+  return response.json();
+};
+
+// Waits until an uploaded file has been processed and can be used in requests.
+const waitUntilActive = async (target: UploadTarget, file: FileResource, signal?: AbortSignal): Promise<FileResource> => {
+  let current = file;
+  while (current.state === 'PROCESSING') {
+    await sleep(UPLOAD_PROCESSING_POLL_MS, signal);
+    current = await getFile(target, current.name, signal);
+  }
+  if (current.state === 'FAILED') {
+    throw new Error('The AI service could not process the uploaded audio.');
+  }
+  return current;
+};
+
+// Uploads a blob in chunks. A chunk that fails with a transient error is retried
+// from the offset the server reports, so only the missing bytes are resent.
+export const uploadFile = async (
+  target: UploadTarget,
+  blob: Blob,
+  { displayName, onProgress, signal }: { displayName: string; onProgress?: (sentBytes: number) => void; signal?: AbortSignal },
+): Promise<RemoteFile> => {
+  const mimeType = blob.type || 'audio/webm';
+  const retryOptions = { retries: GENERATION_MAX_RETRIES, baseDelayMs: GENERATION_RETRY_BASE_DELAY_MS, signal };
+
+  const start = await withRetry(async () => ensureOk(await fetch(`${trimUrl(target.baseUrl)}/upload/v1beta/files`, {
+    method: 'POST',
+    signal,
+    headers: {
+      ...authHeaders(target.apiKey),
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(blob.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+    },
+    body: JSON.stringify({ file: { display_name: displayName } }),
+  }), 'Starting the upload'), retryOptions);
+  const uploadUrl = start.headers.get('X-Goog-Upload-URL');
+  if (!uploadUrl) {
+    throw new Error('The upload server did not return an upload URL.');
+  }
+
+  let offset = 0;
+  onProgress?.(0);
+  for (;;) {
+    let interrupted = false;
+    const response = await withRetry(async () => {
+      if (interrupted) offset = await queryReceivedBytes(uploadUrl, signal);
+      interrupted = true;
+      const end = Math.min(offset + UPLOAD_CHUNK_BYTES, blob.size);
+      return ensureOk(await fetch(uploadUrl, {
+        method: 'POST',
+        signal,
+        headers: {
+          'X-Goog-Upload-Command': end === blob.size ? 'upload, finalize' : 'upload',
+          'X-Goog-Upload-Offset': String(offset),
+        },
+        body: blob.slice(offset, end),
+      }), 'Uploading audio');
+    }, retryOptions);
+    offset = Math.min(offset + UPLOAD_CHUNK_BYTES, blob.size);
+    onProgress?.(offset);
+    if (offset === blob.size) {
+      const { file } = await response.json() as { file: FileResource };
+      const active = await waitUntilActive(target, file, signal);
+      return { name: active.name, uri: active.uri, mimeType: active.mimeType ?? mimeType };
+    }
+  }
+};
+
+export const deleteFile = async ({ baseUrl, apiKey }: UploadTarget, file: RemoteFile): Promise<void> => {
+  await ensureOk(await fetch(`${trimUrl(baseUrl)}/v1beta/${file.name}`, {
+    method: 'DELETE',
+    headers: authHeaders(apiKey),
+  }), 'Deleting the uploaded file');
+};
@@ -1,3 +1,4 @@
+import { MAX_IMPORT_FILE_SIZE_MB, SUPPORTED_IMPORT_FORMATS } from '../constants';
 
 // Helper to convert Blob to Base64
 export const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -12,3 +13,71 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
     reader.readAsDataURL(blob);
   });
 };
+
+// Resolves the MIME type to send to the model for an imported file.
+// Browsers report inconsistent types for the same format (e.g. 'audio/mpeg',
+// 'audio/x-m4a' or an empty string), so the file extension is authoritative.
+export const resolveAudioMimeType = (file: File): string | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return SUPPORTED_IMPORT_FORMATS[extension] ?? null;
+};
+
+// File extension for a blob's MIME type, for naming downloads.
+export const extensionForMimeType = (mimeType: string): string => {
+  const baseType = mimeType.split(';')[0];
+  const match = Object.entries(SUPPORTED_IMPORT_FORMATS).find(([, type]) => type === baseType);
+  return match ? match[0] : 'webm';
+};
+
+// Returns a user-facing error message, or null if the file can be imported.
+export const validateAudioFile = (file: File): string | null => {
+  if (!resolveAudioMimeType(file)) {
+    const formats = Object.keys(SUPPORTED_IMPORT_FORMATS).map(ext => ext.toUpperCase()).join(', ');
+    return `"${file.name}" is not a supported audio file. Supported formats: ${formats}.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" is empty.`;
+  }
+  if (file.size > MAX_IMPORT_FILE_SIZE_MB * 1024 * 1024) {
+    const sizeMb = (file.size / (1024 * 1024)).toFixed(1);
+    return `"${file.name}" is ${sizeMb}MB. Files larger than ${MAX_IMPORT_FILE_SIZE_MB}MB cannot be processed.`;
+  }
+  return null;
+};
+
+// Reads the duration (in seconds) of an audio blob via a detached <audio> element.
+// Resolves to 0 if the browser cannot decode the metadata.
+export const getAudioDuration = (blob: Blob): Promise<number> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const finish = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? Math.round(duration) : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish(0);
+    audio.src = url;
+  });
+};
+
+export const generateFilename = (title: string, extension: string) => {
+  const now = new Date();
+  // Using local timezone for filename
+  const pad = (num: number) => String(num).padStart(2, '0');
+  const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}`;
+  const sanitizedTitle = title.replace(/[\s\W_]+/g, '_').replace(/_+$/, '');
+  return `${sanitizedTitle}_${timestamp}.${extension}`;
+}
+
+export const triggerDownload = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
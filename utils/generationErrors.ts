@@ -0,0 +1,163 @@
+import { SchemaValidationError } from './schemaValidator';
+
+export type GenerationErrorKind =
+  | 'invalidKey'
+  | 'quota'
+  | 'payloadTooLarge'
+  | 'safety'
+  | 'offline'
+  | 'badOutput'
+  | 'cancelled'
+  | 'unknown';
+
+// Follow-ups offered to the user for a failed generation.
+export type GenerationErrorAction = 'retry' | 'changeModel' | 'saveAudio';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  // The error this one classifies, e.g. a ProviderRequestError.
+  readonly originalError?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, originalError?: unknown) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.originalError = originalError;
+  }
+}
+
+// Thrown by providers for non-2xx HTTP responses, so failures can be classified
+// by status code regardless of which backend produced them.
+export class ProviderRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+  }
+}
+
+export const GENERATION_ERROR_DETAILS: Record<GenerationErrorKind, { title: string; message: string; actions: GenerationErrorAction[] }> = {
+  invalidKey: {
+    title: 'Invalid API Key',
+    message: 'The AI service rejected the API key. Check the key configured for this app, or choose another provider in Settings.',
+    actions: ['changeModel', 'saveAudio'],
+  },
+  quota: {
+    title: 'Usage Limit Reached',
+    message: 'The AI service is rate limiting requests or your quota has run out. Wait a little and retry, or try a different model.',
+    actions: ['retry', 'changeModel', 'saveAudio'],
+  },
+  payloadTooLarge: {
+    title: 'Recording Too Large',
+    message: 'The recording is larger than the AI service accepts in one request. Try trimming silence first, or save the audio and import a shorter clip.',
+    actions: ['changeModel', 'saveAudio'],
+  },
+  safety: {
+    title: 'Blocked by Safety Filters',
+    message: 'The AI service declined to process this recording because of its safety policies.',
+    actions: ['changeModel', 'saveAudio'],
+  },
+  offline: {
+    title: 'You Are Offline',
+    message: 'The AI service could not be reached. Check your internet connection and retry.',
+    actions: ['retry', 'saveAudio'],
+  },
+  badOutput: {
+    title: 'Unexpected AI Response',
+    message: 'The AI returned notes in an unexpected format and could not fix them.',
+    actions: ['retry', 'changeModel', 'saveAudio'],
+  },
+  cancelled: {
+    title: 'Generation Cancelled',
+    message: 'Note generation was cancelled.',
+    actions: ['retry', 'saveAudio'],
+  },
+  unknown: {
+    title: 'An Error Occurred',
+    message: 'Failed to generate notes. The AI may have been unable to process the audio. Please try again with a clearer recording.',
+    actions: ['retry', 'changeModel', 'saveAudio'],
+  },
+};
+
+const statusOf = (err: unknown): number | undefined => {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const messageOf = (err: unknown) => (err instanceof Error ? err.message : String(err)).toLowerCase();
+
+const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// fetch() rejects with a TypeError when the network is unreachable.
+const isNetworkError = (err: unknown) => err instanceof TypeError && /fetch|network/i.test(err.message);
+
+export const classifyError = (err: unknown): GenerationError => {
+  if (err instanceof GenerationError) return err;
+  if (isAbortError(err)) {
+    return new GenerationError('cancelled', GENERATION_ERROR_DETAILS.cancelled.message, err);
+  }
+  if (err instanceof SchemaValidationError) {
+    return new GenerationError('badOutput', `${GENERATION_ERROR_DETAILS.badOutput.message} (field "${err.path}": ${err.reason}).`, err);
+  }
+
+  const status = statusOf(err);
+  const message = messageOf(err);
+  let kind: GenerationErrorKind = 'unknown';
+  if (!navigator.onLine || isNetworkError(err)) {
+    kind = 'offline';
+  } else if (status === 401 || status === 403 || message.includes('api key not valid') || message.includes('api_key_invalid')) {
+    kind = 'invalidKey';
+  } else if (status === 429 || message.includes('resource_exhausted') || message.includes('quota')) {
+    kind = 'quota';
+  } else if (status === 413 || message.includes('payload size') || message.includes('request entity too large') || message.includes('request payload')) {
+    kind = 'payloadTooLarge';
+  } else if (message.includes('safety') || message.includes('blocked')) {
+    kind = 'safety';
+  }
+  return new GenerationError(kind, GENERATION_ERROR_DETAILS[kind].message, err);
+};
+
+// Rate limits, server errors and dropped connections are usually temporary.
+const isTransient = (err: unknown): boolean => {
+  if (isAbortError(err) || err instanceof GenerationError) return false;
+  const status = statusOf(err);
+  if (status !== undefined) return status === 429 || status === 408 || status >= 500;
+  return navigator.onLine && isNetworkError(err);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+// Runs `fn`, retrying transient failures with exponential backoff and jitter.
+export const withRetry = async <T>(fn: () => Promise<T>, { retries, baseDelayMs, signal, onRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries || !isTransient(err) || signal?.aborted) throw err;
+      const delayMs = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`Request failed, retrying in ${Math.round(delayMs)}ms:`, err);
+      onRetry?.(attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Glossary, Notes } from '../types';
+import { applyGlossary } from './glossary';
+import { BUILT_IN_TEMPLATES } from './templates';
+
+const MEETING = BUILT_IN_TEMPLATES[0];
+
+const glossary = (people: string[], terms: string[] = [], corrections: Glossary['corrections'] = []): Glossary => ({
+  people: people.map(name => ({ name })),
+  terms: terms.map(term => ({ term })),
+  corrections,
+});
+
+const notes = (overrides: Partial<Notes> = {}): Notes => ({
+  title: 'Weekly sync',
+  summary: '',
+  participants: [],
+  topics: [],
+  decisions: [],
+  actionItems: [],
+  ...overrides,
+});
+
+describe('applyGlossary', () => {
+  it('fixes near-miss spellings of glossary terms', () => {
+    const result = applyGlossary(notes({ summary: 'We moved the service to Kubernets.' }), glossary([], ['Kubernetes']), MEETING);
+    expect(result.summary).toBe('We moved the service to Kubernetes.');
+  });
+
+  it('keeps names that are spelled like another glossary name', () => {
+    const result = applyGlossary(notes({
+      participants: [{ name: 'Brian Lee' }, { name: 'Bryan Cho' }],
+      actionItems: [{ task: 'Send the deck', assignee: 'Bryan' }, { task: 'Book the room', assignee: 'Brian' }],
+      transcript: [{ speaker: 'Brian Lee', startSeconds: 0, endSeconds: 4, text: 'Bryan, can you send the deck?' }],
+    }), glossary(['Brian Lee', 'Bryan Cho']), MEETING);
+
+    expect(result.participants.map(participant => participant.name)).toEqual(['Brian Lee', 'Bryan Cho']);
+    expect(result.actionItems.map(item => item.assignee)).toEqual(['Bryan Cho', 'Brian Lee']);
+    expect(result.transcript?.[0].speaker).toBe('Brian Lee');
+  });
+
+  it('leaves words alone that differ from a glossary word in their last letter', () => {
+    const result = applyGlossary(
+      notes({ summary: 'Peter, Daniel and the Grand team agreed.' }),
+      glossary(['Anna Peters', 'Daniela Ruiz', 'Grant Wu']),
+      MEETING,
+    );
+    expect(result.summary).toBe('Peter, Daniel and the Grand team agreed.');
+  });
+
+  it('leaves words alone that are a near miss of more than one glossary word', () => {
+    const result = applyGlossary(notes({ summary: 'Ask Marla about it.' }), glossary(['Marta Diaz', 'Maria Diaz']), MEETING);
+    expect(result.summary).toBe('Ask Marla about it.');
+  });
+
+  it('only applies the user corrections to the transcript text and quotes', () => {
+    const result = applyGlossary(notes({
+      topics: [{ topic: 'Kubernets rollout', keyIdeas: [], quotes: ['Kubernets is fine, says cube control.'] }],
+      transcript: [{ speaker: 'Speaker 1', startSeconds: 0, endSeconds: 4, text: 'Kubernets is fine, says cube control.' }],
+    }), glossary([], ['Kubernetes'], [{ from: 'cube control', to: 'kubectl' }]), MEETING);
+
+    expect(result.topics[0].topic).toBe('Kubernetes rollout');
+    expect(result.topics[0].quotes).toEqual(['Kubernets is fine, says kubectl.']);
+    expect(result.transcript?.[0].text).toBe('Kubernets is fine, says kubectl.');
+  });
+
+  it('only re-cases glossary names in name fields', () => {
+    const result = applyGlossary(notes({
+      summary: 'We will review the api next week.',
+      participants: [{ name: 'will' }],
+    }), glossary(['Will'], ['API']), MEETING);
+
+    expect(result.summary).toBe('We will review the api next week.');
+    expect(result.participants[0].name).toBe('Will');
+  });
+
+  it('fills in roles and full names of glossary people', () => {
+    const result = applyGlossary(notes({
+      participants: [{ name: 'Priya' }],
+      actionItems: [{ task: 'Draft the plan', assignee: 'priya' }],
+    }), { ...glossary([]), people: [{ name: 'Priya Raman', role: 'PM' }] }, MEETING);
+
+    expect(result.participants).toEqual([{ name: 'Priya Raman', role: 'PM' }]);
+    expect(result.actionItems[0].assignee).toBe('Priya Raman');
+  });
+});
@@ -0,0 +1,172 @@
+import type { Glossary, GlossaryPerson, GlossaryTerm, GlossaryCorrection, Notes, NoteTemplate, Participant, ActionItem, Definition } from '../types';
+import { sectionValue, withSectionValue } from './templates';
+
+export type GlossaryEntry =
+  | { kind: 'person'; value: GlossaryPerson }
+  | { kind: 'term'; value: GlossaryTerm }
+  | { kind: 'correction'; value: GlossaryCorrection };
+
+export const EMPTY_GLOSSARY: Glossary = { people: [], terms: [], corrections: [] };
+
+export const isGlossaryEmpty = (glossary: Glossary) =>
+  glossary.people.length === 0 && glossary.terms.length === 0 && glossary.corrections.length === 0;
+
+// Drops rows the user left blank in the editor.
+const withoutBlanks = (glossary: Glossary): Glossary => ({
+  people: glossary.people.filter(person => person.name.trim()),
+  terms: glossary.terms.filter(term => term.term.trim()),
+  corrections: glossary.corrections.filter(correction => correction.from.trim() && correction.to.trim()),
+});
+
+// Tells the model how to spell the names and terms it is likely to hear.
+export const buildGlossaryPrompt = (entries: Glossary): string => {
+  const glossary = withoutBlanks(entries);
+  if (isGlossaryEmpty(glossary)) return '';
+  const lines: string[] = [];
+  if (glossary.people.length > 0) {
+    lines.push('People who may speak or be mentioned:');
+    lines.push(...glossary.people.map(person => `- ${person.name}${person.role ? ` (${person.role})` : ''}`));
+  }
+  if (glossary.terms.length > 0) {
+    lines.push('Terms, product names and acronyms that may come up:');
+    lines.push(...glossary.terms.map(term => `- ${term.term}${term.description ? `: ${term.description}` : ''}`));
+  }
+  if (glossary.corrections.length > 0) {
+    lines.push('Commonly misheard words:');
+    lines.push(...glossary.corrections.map(correction => `- "${correction.from}" should be written "${correction.to}"`));
+  }
+  return `
+Use the exact spellings below for names and terms, in participants, assignees, definitions and everywhere else.
+${lines.join('\n')}
+`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `text` as a whole word, ignoring case. Word boundaries are based on
+// letters and digits so that names with accents or symbols (e.g. "C++") work.
+const wholeWord = (text: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(text)}(?![\\p{L}\\p{N}])`, 'giu');
+
+// Shortest word that is corrected when it is one edit away from a glossary word.
+// Shorter words are too likely to be other words.
+const NEAR_MISS_MIN_LENGTH = 5;
+
+// Whether `word` is a misspelling of `target`: not the same word in any casing,
+// starting and ending with the same characters and at most one insertion,
+// deletion or substitution away, e.g. "Kubernets" for "Kubernetes". Words that
+// differ in their last character are often different words ("Peter", "Peters").
+const isNearMiss = (word: string, target: string): boolean => {
+  if (word[0] !== target[0] || Math.abs(word.length - target.length) > 1) return false;
+  const a = word.toLowerCase();
+  const b = target.toLowerCase();
+  if (a === b || a[a.length - 1] !== b[b.length - 1]) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+};
+
+const canonicalNames = (glossary: Glossary) =>
+  [...glossary.people.map(person => person.name), ...glossary.terms.map(term => term.term)].map(text => text.trim());
+
+// Corrections applied to generated text. `correctHeard` applies the user's
+// corrections, and is all that is applied to what the speakers said verbatim.
+// `correct` also fixes near-miss spellings of the words in glossary names and
+// terms. A word is only changed when it matches no glossary word in any casing
+// and is a near miss of exactly one, so that similar names ("Brian", "Bryan")
+// are left as they are.
+const buildCorrectors = (glossary: Glossary) => {
+  const corrections = glossary.corrections.map(c => ({ pattern: wholeWord(c.from.trim()), to: c.to.trim() }));
+  const words = [...new Set(canonicalNames(glossary).flatMap(text => text.split(/[^\p{L}\p{N}]+/u)))]
+    .filter(word => word.length >= NEAR_MISS_MIN_LENGTH);
+  const knownWords = new Set(words.map(word => word.toLowerCase()));
+  const fixSpelling = (word: string) => {
+    if (word.length < NEAR_MISS_MIN_LENGTH || knownWords.has(word.toLowerCase())) return word;
+    const targets = words.filter(target => isNearMiss(word, target));
+    return targets.length === 1 ? targets[0] : word;
+  };
+  const correctHeard = (text: string) => corrections.reduce((result, { pattern, to }) => result.replace(pattern, () => to), text);
+  return {
+    correctHeard,
+    correct: (text: string) => correctHeard(text).replace(/[\p{L}\p{N}]+/gu, fixSpelling),
+  };
+};
+
+// Fixes the capitalization of known names and terms, e.g. "Api" -> "API". Only
+// applied to fields that hold names.
+const buildCaser = (glossary: Glossary) => {
+  const patterns = canonicalNames(glossary).map(text => ({ pattern: wholeWord(text), to: text }));
+  return (text: string) => patterns.reduce((result, { pattern, to }) => result.replace(pattern, () => to), text);
+};
+
+// Properties holding the speakers' own words: transcript text and quotes.
+const VERBATIM_KEYS = new Set(['text', 'quotes']);
+
+type Correctors = ReturnType<typeof buildCorrectors>;
+
+const correctValue = (value: unknown, correctors: Correctors, verbatim = false): unknown => {
+  if (typeof value === 'string') return verbatim ? correctors.correctHeard(value) : correctors.correct(value);
+  if (Array.isArray(value)) return value.map(item => correctValue(item, correctors, verbatim));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, correctValue(item, correctors, verbatim || VERBATIM_KEYS.has(key))]));
+  }
+  return value;
+};
+
+// Expands a bare first name to the full name of the only glossary person with
+// that first name, e.g. an assignee "Priya" becomes "Priya Raman".
+const resolvePerson = (name: string, glossary: Glossary): string => {
+  const key = name.trim().toLowerCase();
+  const exact = glossary.people.find(person => person.name.toLowerCase() === key);
+  if (exact) return exact.name;
+  const byFirstName = glossary.people.filter(person => person.name.split(/\s+/)[0].toLowerCase() === key);
+  return byFirstName.length === 1 ? byFirstName[0].name : name;
+};
+
+// Deterministic clean-up applied to generated notes: the user's corrections
+// everywhere; near-miss spelling fixes except in the transcript text and quotes;
+// canonical capitalization and full names in participants, assignees,
+// definition terms and transcript speakers; and roles from the glossary for
+// participants the model didn't give one.
+export const applyGlossary = (notes: Notes, entries: Glossary, template: NoteTemplate): Notes => {
+  const glossary = withoutBlanks(entries);
+  if (isGlossaryEmpty(glossary)) return notes;
+  const caseName = buildCaser(glossary);
+  const resolveName = (name: string) => resolvePerson(caseName(name), glossary);
+  let corrected = correctValue(notes, buildCorrectors(glossary)) as Notes;
+
+  template.sections.forEach(section => {
+    const value = sectionValue(corrected, section);
+    if (!Array.isArray(value)) return;
+    if (section.kind === 'participants') {
+      corrected = withSectionValue(corrected, section, (value as Participant[]).map(participant => {
+        const name = resolveName(participant.name);
+        const role = participant.role || glossary.people.find(person => person.name === name)?.role;
+        return { ...participant, name, ...(role ? { role } : {}) };
+      }));
+    } else if (section.kind === 'actionItems') {
+      corrected = withSectionValue(corrected, section,
+        (value as ActionItem[]).map(item => ({ ...item, assignee: resolveName(item.assignee) })));
+    } else if (section.kind === 'definitions') {
+      corrected = withSectionValue(corrected, section,
+        (value as Definition[]).map(definition => ({ ...definition, term: caseName(definition.term) })));
+    }
+  });
+  corrected.transcript = corrected.transcript?.map(turn => ({ ...turn, speaker: resolveName(turn.speaker) }));
+  return corrected;
+};
+
+// Adds an entry, replacing an existing one for the same name, term or misspelling.
+export const addGlossaryEntry = (glossary: Glossary, entry: GlossaryEntry): Glossary => {
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  switch (entry.kind) {
+    case 'person':
+      return { ...glossary, people: [...glossary.people.filter(p => !same(p.name, entry.value.name)), entry.value] };
+    case 'term':
+      return { ...glossary, terms: [...glossary.terms.filter(t => !same(t.term, entry.value.term)), entry.value] };
+    case 'correction':
+      return { ...glossary, corrections: [...glossary.corrections.filter(c => !same(c.from, entry.value.from)), entry.value] };
+  }
+};
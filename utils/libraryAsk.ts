@@ -0,0 +1,47 @@
+import type { NotesProvider, TokenUsage } from '../types';
+import { GEMINI_LIBRARY_PROMPT, LIBRARY_ANSWER_SCHEMA, GENERATION_MAX_RETRIES, GENERATION_RETRY_BASE_DELAY_MS } from '../constants';
+import { searchNotes, SearchResult } from './searchIndex';
+import { withRetry } from './generationErrors';
+import { validateOutput } from './schemaValidator';
+
+export interface LibraryAnswer {
+  // Cites sources as [n], where n is the 1-based position in `sources`.
+  answer: string;
+  sources: SearchResult[];
+  // Numbers of the sources the answer actually cites.
+  cited: number[];
+}
+
+const describeSource = (source: SearchResult, index: number) =>
+  `[${index + 1}] "${source.title}" (${new Date(source.createdAt).toLocaleDateString()}), ${source.label}:\n${source.text}`;
+
+// Answers a question from the most relevant passages in the whole library.
+// Returns null without calling the model when nothing in the library matches.
+export const askLibrary = async (
+  provider: NotesProvider,
+  question: string,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<LibraryAnswer | null> => {
+  const sources = await searchNotes(question);
+  if (sources.length === 0) return null;
+
+  const prompt = `${GEMINI_LIBRARY_PROMPT}
+Excerpts:
+${sources.map(describeSource).join('\n\n')}
+
+Question: ${question}
+`;
+  const response = await withRetry(
+    () => provider.generateJson(prompt, LIBRARY_ANSWER_SCHEMA, signal, { onUsage }),
+    { retries: GENERATION_MAX_RETRIES, baseDelayMs: GENERATION_RETRY_BASE_DELAY_MS, signal },
+  );
+  const { answer, sources: listed } = validateOutput<{ answer: string; sources: number[] }>(response, LIBRARY_ANSWER_SCHEMA);
+  // Models don't always list every number they cite inline, so collect both.
+  const inline = [...answer.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1]));
+  return {
+    answer,
+    sources,
+    cited: [...new Set([...listed, ...inline])].filter(n => n >= 1 && n <= sources.length).sort((a, b) => a - b),
+  };
+};
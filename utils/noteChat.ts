@@ -0,0 +1,68 @@
+import type { Notes, NoteTemplate, ChatMessage, ChatReference, NotesProvider, AudioInput, TokenUsage } from '../types';
+import {
+  GEMINI_CHAT_PROMPT, CHAT_ANSWER_SCHEMA, CHAT_HISTORY_MESSAGES, MAX_INLINE_AUDIO_BYTES,
+  GENERATION_MAX_RETRIES, GENERATION_RETRY_BASE_DELAY_MS,
+} from '../constants';
+import { withRetry } from './generationErrors';
+import { validateOutput } from './schemaValidator';
+import { BUILT_IN_TEMPLATES, notesToOutput } from './templates';
+
+export interface ChatContext {
+  notes: Notes;
+  template?: NoteTemplate;
+  // Sent along with the question when it is small enough for one request.
+  audioBlob: Blob | null;
+  history: ChatMessage[];
+}
+
+const describeNotes = (notes: Notes, template: NoteTemplate = BUILT_IN_TEMPLATES[0]) => {
+  const sectionTitles = `Section titles: ${template.sections.map(section => `${section.key} = "${section.title}"`).join(', ')}\n`;
+  const transcriptText = (notes.transcript ?? [])
+    .map(turn => `[${Math.round(turn.startSeconds)}s] ${turn.speaker}: ${turn.text}`)
+    .join('\n');
+  return `Notes (JSON):
+${sectionTitles}${JSON.stringify(notesToOutput(notes, template))}
+
+Transcript:
+${transcriptText || '(not available)'}
+`;
+};
+
+const describeHistory = (history: ChatMessage[]) => history
+  .slice(-CHAT_HISTORY_MESSAGES)
+  .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+  .join('\n');
+
+// Answers a question about a note from its notes and transcript, and from the
+// audio when it fits in a single request.
+export const askAboutNote = async (
+  provider: NotesProvider,
+  question: string,
+  { notes, template, audioBlob, history }: ChatContext,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<ChatMessage> => {
+  const conversation = history.length > 0 ? `\nConversation so far:\n${describeHistory(history)}\n` : '';
+  const prompt = `${GEMINI_CHAT_PROMPT}
+${describeNotes(notes, template)}${conversation}
+Latest question: ${question}
+`;
+  // Sizes are checked in the format the provider sends, which may be larger.
+  let inputs: AudioInput[] = audioBlob !== null && audioBlob.size <= MAX_INLINE_AUDIO_BYTES ? [{ blob: audioBlob }] : [];
+  if (inputs.length > 0 && provider.prepareAudio) inputs = await provider.prepareAudio(inputs);
+  const withAudio = inputs.length > 0 && inputs[0].blob.size <= MAX_INLINE_AUDIO_BYTES;
+  const response = await withRetry(
+    () => withAudio
+      ? provider.generateNotes(inputs, prompt, CHAT_ANSWER_SCHEMA, signal, { onUsage })
+      : provider.generateJson(prompt, CHAT_ANSWER_SCHEMA, signal, { onUsage }),
+    { retries: GENERATION_MAX_RETRIES, baseDelayMs: GENERATION_RETRY_BASE_DELAY_MS, signal },
+  );
+  const { answer, references } = validateOutput<{ answer: string; references: ChatReference[] }>(response, CHAT_ANSWER_SCHEMA);
+  return {
+    id: `message_${Date.now()}`,
+    role: 'assistant',
+    text: answer,
+    createdAt: new Date(),
+    references,
+  };
+};
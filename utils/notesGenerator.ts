@@ -0,0 +1,325 @@
+import type { Schema } from "@google/genai";
+import type { Notes, GenerationProgress, SourceTracks, Marker, AudioInput, NotesProvider, NoteTemplate, Glossary, TokenUsage, RemoteFile } from '../types';
+import {
+  GEMINI_MERGE_PROMPT, GEMINI_REPAIR_PROMPT, GEMINI_MERGE_SCHEMA, GEMINI_SOURCE_TRACKS_PROMPT,
+  MARKER_TYPES, LONG_RECORDING_THRESHOLD_SECONDS, GENERATION_MAX_RETRIES, GENERATION_RETRY_BASE_DELAY_MS, MAX_INLINE_AUDIO_BYTES, SEGMENT_SAMPLE_RATE, UPLOAD_OPUS_BITRATE, STREAM_PREVIEW_INTERVAL_MS, UPLOAD_THRESHOLD_BYTES,
+  ANALYTICS_MAX_DECODE_BYTES,
+} from '../constants';
+import { planSegments, createSegmentReader, encodeSpeech, AudioSegment } from './audioSegmenter';
+import { mergeNotes } from './notesMerger';
+import { convertAudio, decodeAudioBlob, isOpusEncodingSupported } from './audioConverter';
+import { SchemaValidationError, validateOutput } from './schemaValidator';
+import { withRetry } from './generationErrors';
+import { buildTemplatePrompt, buildTemplateSchema, notesFromOutput } from './templates';
+import { buildLanguagePrompt } from './translation';
+import { applyGlossary, buildGlossaryPrompt, EMPTY_GLOSSARY } from './glossary';
+import { previewPartialJson } from './partialJson';
+import { addAnalytics, findSpeechRanges, TrackSpeech } from './conversationAnalytics';
+import type { TimeRange } from './silenceTrimmer';
+
+const formatTimestamp = (seconds: number) => new Date(seconds * 1000).toISOString().slice(11, 19);
+
+// Longest slice of the invalid output sent back for repair, to keep the request small.
+const MAX_REPAIR_OUTPUT_CHARS = 100_000;
+
+const buildRepairPrompt = (error: SchemaValidationError) => `${GEMINI_REPAIR_PROMPT}
+Validation error: field "${error.path}": ${error.reason}.
+
+Previous response:
+${(error.output ?? '').slice(0, MAX_REPAIR_OUTPUT_CHARS)}
+`;
+
+// State shared by all requests of one generation run.
+interface GenerationContext {
+  provider: NotesProvider;
+  template: NoteTemplate;
+  // Response schema of the template being generated.
+  schema: Schema;
+  // Language and glossary instructions, appended to every prompt that produces
+  // text for the notes.
+  instructions: string;
+  signal?: AbortSignal;
+  onRetry: (attempt: number, delayMs: number) => void;
+  // Called with the token counts of every request, including repairs and merges.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Runs a request, retrying transient failures, and validates its output. Invalid
+// output gets one repair round-trip in which the model is shown the error and
+// asked to fix its answer.
+const requestValidated = async <T>(context: GenerationContext, schema: Schema, request: () => Promise<unknown>): Promise<T> => {
+  const { provider, signal, onRetry, onUsage } = context;
+  const retryOptions = { retries: GENERATION_MAX_RETRIES, baseDelayMs: GENERATION_RETRY_BASE_DELAY_MS, signal, onRetry };
+  try {
+    return validateOutput<T>(await withRetry(request, retryOptions), schema);
+  } catch (err) {
+    if (!(err instanceof SchemaValidationError)) throw err;
+    console.warn("Model output failed validation, requesting a repair:", err.message);
+    const repaired = await withRetry(() => provider.generateJson(buildRepairPrompt(err), schema, signal, { onUsage }), retryOptions);
+    return validateOutput<T>(repaired, schema);
+  }
+};
+
+const generateValidatedNotes = async (context: GenerationContext, inputs: AudioInput[], prompt: string, onText?: (text: string) => void) =>
+  notesFromOutput(
+    await requestValidated<Record<string, unknown>>(context, context.schema, () => context.provider.generateNotes(inputs, prompt, context.schema, context.signal, { onText, onUsage: context.onUsage })),
+    context.template,
+  );
+
+// Re-encodes inputs as low-bitrate mono Opus so that a recording which is short
+// but large (e.g. an imported WAV) can still be sent in one request.
+const compressInputs = async (inputs: AudioInput[]): Promise<AudioInput[]> => {
+  if (!(await isOpusEncodingSupported(SEGMENT_SAMPLE_RATE, 1))) return inputs;
+  const compressed: AudioInput[] = [];
+  for (const input of inputs) {
+    const blob = await convertAudio(input.blob, { format: 'opus', sampleRate: SEGMENT_SAMPLE_RATE, mono: true, bitrate: UPLOAD_OPUS_BITRATE });
+    compressed.push({ ...input, blob: blob.size < input.blob.size ? blob : input.blob });
+  }
+  return compressed;
+};
+
+const totalSize = (inputs: AudioInput[]) => inputs.reduce((total, input) => total + input.blob.size, 0);
+
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+// Uploads the inputs, runs `request` with references to the uploaded files, and
+// deletes the files afterwards whether or not the request succeeded.
+const withUploadedInputs = async <T>(
+  provider: NotesProvider,
+  inputs: AudioInput[],
+  report: (progress: GenerationProgress) => void,
+  request: (uploaded: AudioInput[]) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  const { uploadAudio, deleteAudio } = provider;
+  if (!uploadAudio) throw new Error(`${provider.label} cannot upload audio.`);
+  const total = totalSize(inputs);
+  const uploaded: (AudioInput & { file: RemoteFile })[] = [];
+  try {
+    for (const input of inputs) {
+      const sentBefore = totalSize(uploaded);
+      const file = await uploadAudio(input.blob, (sent) => report({
+        label: 'Uploading audio...',
+        completed: sentBefore + sent,
+        total,
+        detail: `${formatMegabytes(sentBefore + sent)} of ${formatMegabytes(total)} MB uploaded`,
+      }), signal);
+      uploaded.push({ ...input, file });
+    }
+    report({ label: 'Analyzing uploaded audio...', completed: 1, total: 1 });
+    return await request(uploaded);
+  } finally {
+    uploaded.forEach(({ file }) => {
+      deleteAudio?.(file).catch(err => console.warn("Failed to delete uploaded audio:", err));
+    });
+  }
+};
+
+const buildSegmentPrompt = (basePrompt: string, segment: AudioSegment, total: number) => `${basePrompt}
+This audio is part ${segment.index + 1} of ${total} of a longer recording and covers ${formatTimestamp(segment.startSeconds)} to ${formatTimestamp(segment.endSeconds)}.
+Consecutive parts overlap by a few seconds. Only describe what is said in this part.
+Transcript times must be relative to the start of this part's audio.
+`;
+
+// Tells the model about moments the user flagged while recording. Times are
+// relative to the start of the audio being sent.
+const buildMarkersPrompt = (markers: Marker[], offsetSeconds = 0) => {
+  if (markers.length === 0) return '';
+  const lines = markers.map(marker => {
+    const label = MARKER_TYPES.find(m => m.type === marker.type)?.label ?? marker.type;
+    return `- ${formatTimestamp(Math.max(0, marker.timeSeconds - offsetSeconds))}: ${label}`;
+  });
+  return `
+The user flagged the following moments while recording. Pay particular attention to what is said around each one:
+an "Important" moment should be reflected in the summary or topics, a "Decision" moment in the decisions, and an "Action Item" moment in the action items.
+${lines.join('\n')}
+`;
+};
+
+// Moves transcript times from relative to a segment to relative to the recording.
+const offsetTranscript = (part: Notes, offsetSeconds: number): Notes => ({
+  ...part,
+  transcript: part.transcript?.map(turn => ({
+    ...turn,
+    startSeconds: turn.startSeconds + offsetSeconds,
+    endSeconds: turn.endSeconds + offsetSeconds,
+  })),
+});
+
+const summarizeParts = async (context: GenerationContext, parts: Notes[]): Promise<{ title: string; summary: string }> => {
+  const partsText = parts
+    .map((part, i) => `Part ${i + 1}\nTitle: ${part.title}\nSummary: ${part.summary}`)
+    .join('\n\n');
+
+  const prompt = `${GEMINI_MERGE_PROMPT}${context.instructions}\n${partsText}`;
+  return requestValidated(context, GEMINI_MERGE_SCHEMA, () => context.provider.generateJson(prompt, GEMINI_MERGE_SCHEMA, context.signal, { onUsage: context.onUsage }));
+};
+
+export interface NotesRequest {
+  blob: Blob;
+  durationSeconds: number;
+  sourceTracks?: SourceTracks | null;
+  markers?: Marker[];
+  template: NoteTemplate;
+  // Code from OUTPUT_LANGUAGES; unset to write the notes in the spoken language.
+  outputLanguage?: string | null;
+  glossary?: Glossary;
+}
+
+// Generates notes for a recording. Large recordings are uploaded and referenced
+// when the provider has a file API. Recordings that are too long, or too large
+// for one request, are split into overlapping segments that are processed in
+// order and merged.
+// When separate source tracks are available they are sent instead of the mix.
+// With `onPartialNotes` the responses are streamed and previews of the notes are
+// reported as they arrive; only the returned notes are validated. The returned
+// notes carry conversation analytics, which previews don't.
+export const generateNotes = async (
+  provider: NotesProvider,
+  { blob, durationSeconds, sourceTracks, markers = [], template, outputLanguage, glossary = EMPTY_GLOSSARY }: NotesRequest,
+  { onProgress, onPartialNotes, onUsage, signal }: {
+    onProgress?: (progress: GenerationProgress) => void;
+    onPartialNotes?: (notes: Notes) => void;
+    onUsage?: (usage: TokenUsage) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<Notes> => {
+  let lastProgress: GenerationProgress = { label: '', completed: 0, total: 1 };
+  const report = (progress: GenerationProgress) => {
+    lastProgress = progress;
+    onProgress?.(progress);
+  };
+  const context: GenerationContext = {
+    provider,
+    template,
+    schema: buildTemplateSchema(template),
+    instructions: `${buildLanguagePrompt(outputLanguage)}${buildGlossaryPrompt(glossary)}`,
+    signal,
+    onUsage,
+    onRetry: (attempt, delayMs) => onProgress?.({
+      ...lastProgress,
+      label: `The AI service is busy. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${GENERATION_MAX_RETRIES + 1})...`,
+    }),
+  };
+  const throwIfAborted = () => signal?.throwIfAborted();
+  // Corrects names and jargon the model misspelled despite the glossary.
+  const finish = (notes: Notes) => applyGlossary(notes, glossary, template);
+  // Builds the stream handler for one request. `toNotes` places the partial
+  // response in the context of the whole recording.
+  let lastPreviewAt = 0;
+  const streamPreview = (toNotes: (partial: Notes) => Notes) => onPartialNotes && ((text: string) => {
+    const now = Date.now();
+    if (now - lastPreviewAt < STREAM_PREVIEW_INTERVAL_MS) return;
+    const partial = previewPartialJson<Record<string, unknown>>(text, context.schema);
+    if (!partial) return;
+    lastPreviewAt = now;
+    onPartialNotes(finish(toNotes(notesFromOutput(partial, template))));
+  });
+
+  const inputs: AudioInput[] = sourceTracks
+    ? [{ blob: sourceTracks.mic, label: 'local microphone' }, { blob: sourceTracks.system, label: 'system audio' }]
+    : [{ blob }];
+  const templatePrompt = `${buildTemplatePrompt(template)}${context.instructions}`;
+  const basePrompt = sourceTracks ? `${templatePrompt}${GEMINI_SOURCE_TRACKS_PROMPT}` : templatePrompt;
+
+  // Measures speech in the inputs, decoding each whole.
+  const measureInputs = async () => {
+    const tracks: TrackSpeech[] = [];
+    for (const input of inputs) {
+      const buffer = await decodeAudioBlob(input.blob, SEGMENT_SAMPLE_RATE);
+      tracks.push({ label: input.label, durationSeconds: buffer.duration, speech: findSpeechRanges(buffer) });
+      throwIfAborted();
+    }
+    return tracks;
+  };
+  // Adds conversation analytics, measuring speech in the inputs. The segmented
+  // path has already measured it segment by segment; otherwise the inputs are
+  // decoded here unless too large, and analytics come from the transcript alone
+  // if that fails.
+  const complete = async (notes: Notes, tracks?: TrackSpeech[]) => {
+    report({ label: 'Analyzing the conversation...', completed: 1, total: 1 });
+    let measured = tracks;
+    if (!measured && totalSize(inputs) <= ANALYTICS_MAX_DECODE_BYTES) {
+      try {
+        measured = await measureInputs();
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        console.warn("Could not decode the recording for analytics:", err);
+      }
+    }
+    return addAnalytics(finish(notes), measured ?? []);
+  };
+
+  if (durationSeconds <= LONG_RECORDING_THRESHOLD_SECONDS) {
+    const prompt = `${basePrompt}${buildMarkersPrompt(markers)}`;
+    if (totalSize(inputs) > UPLOAD_THRESHOLD_BYTES && provider.uploadAudio) {
+      const notes = await withUploadedInputs(provider, inputs, report,
+        (uploaded) => generateValidatedNotes(context, uploaded, prompt, streamPreview(partial => partial)), signal);
+      return complete(notes);
+    }
+    // The size is checked in the format the provider sends, which may be larger
+    // than the recording.
+    const prepared = provider.prepareAudio ? await provider.prepareAudio(inputs) : inputs;
+    throwIfAborted();
+    if (totalSize(prepared) <= MAX_INLINE_AUDIO_BYTES) {
+      return complete(await generateValidatedNotes(context, prepared, prompt, streamPreview(notes => notes)));
+    }
+    // Providers that convert the audio themselves would undo the compression.
+    if (!provider.prepareAudio) {
+      report({ label: 'Compressing audio for upload...', completed: 0, total: 1 });
+      const compressed = await compressInputs(inputs);
+      throwIfAborted();
+      if (totalSize(compressed) <= MAX_INLINE_AUDIO_BYTES) {
+        return complete(await generateValidatedNotes(context, compressed, prompt, streamPreview(notes => notes)));
+      }
+    }
+  }
+
+  report({ label: 'Preparing audio segments...', completed: 0, total: 1 });
+  // Segments are decoded one at a time, so memory use doesn't grow with the
+  // length of the recording.
+  const readers = [];
+  for (const input of inputs) {
+    readers.push(await createSegmentReader(input.blob));
+    throwIfAborted();
+  }
+  const segments = planSegments(Math.max(...readers.map(reader => reader.durationSeconds)));
+  const speech: TimeRange[][] = inputs.map(() => []);
+
+  const parts: Notes[] = [];
+  for (const segment of segments) {
+    throwIfAborted();
+    report({ label: `Analyzing segment ${segment.index + 1} of ${segments.length}...`, completed: segment.index, total: segments.length });
+    // Speech is measured up to where the next segment starts, so the overlap
+    // isn't counted twice.
+    const measuredUntil = segments[segment.index + 1]?.startSeconds ?? segment.endSeconds;
+    const segmentInputs: AudioInput[] = [];
+    for (let i = 0; i < inputs.length; i++) {
+      const buffer = await readers[i].read(segment.startSeconds, segment.endSeconds);
+      speech[i].push(...findSpeechRanges(buffer, segment.startSeconds, measuredUntil));
+      segmentInputs.push({ label: inputs[i].label, blob: await encodeSpeech(buffer) });
+    }
+    const segmentMarkers = markers.filter(m => m.timeSeconds >= segment.startSeconds && m.timeSeconds < segment.endSeconds);
+    const prompt = `${buildSegmentPrompt(basePrompt, segment, segments.length)}${buildMarkersPrompt(segmentMarkers, segment.startSeconds)}`;
+    // Previews show the finished segments merged with the one in progress, under
+    // the first segment's title until the overview is written.
+    const onText = streamPreview(partial => {
+      const previewParts = [...parts, offsetTranscript(partial, segment.startSeconds)];
+      return mergeNotes(previewParts, {
+        title: previewParts[0].title,
+        summary: previewParts.map(part => part.summary).filter(Boolean).join(' '),
+      }, template);
+    });
+    const part = await generateValidatedNotes(context, segmentInputs, prompt, onText);
+    // Transcript times come back relative to the segment.
+    parts.push(offsetTranscript(part, segment.startSeconds));
+  }
+
+  report({ label: 'Merging notes from all segments...', completed: segments.length, total: segments.length });
+  const overview = await summarizeParts(context, parts);
+  return complete(mergeNotes(parts, overview, template), readers.map((reader, i) => ({
+    label: inputs[i].label,
+    durationSeconds: reader.durationSeconds,
+    speech: speech[i],
+  })));
+};
@@ -0,0 +1,132 @@
+import type { Notes, Participant, Topic, Definition, ActionItem, TranscriptSegment, NoteTemplate, TemplateSection, TopicSentiment } from '../types';
+import { notesFromOutput, sectionValue, withSectionValue } from './templates';
+
+// Normalizes text for duplicate detection: case, punctuation and whitespace
+// differences between segments should not produce separate entries.
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+};
+
+const dedupeStrings = (items: string[]): string[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = normalize(item);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const mergeParticipants = (lists: Participant[][]): Participant[] => {
+  const byName = new Map<string, Participant>();
+  lists.flat().forEach(participant => {
+    const key = normalize(participant.name);
+    if (!key) return;
+    const existing = byName.get(key);
+    if (!existing) {
+      byName.set(key, { ...participant });
+    } else if (!existing.role && participant.role) {
+      existing.role = participant.role;
+    }
+  });
+  return [...byName.values()];
+};
+
+const mergeTopics = (lists: Topic[][]): Topic[] => {
+  const byName = new Map<string, Topic>();
+  lists.flat().forEach(topic => {
+    const key = normalize(topic.topic);
+    const existing = byName.get(key);
+    if (!existing) {
+      byName.set(key, { ...topic, keyIdeas: [...(topic.keyIdeas ?? [])], quotes: [...(topic.quotes ?? [])] });
+      return;
+    }
+    existing.keyIdeas = dedupeStrings([...existing.keyIdeas, ...(topic.keyIdeas ?? [])]);
+    existing.quotes = dedupeStrings([...(existing.quotes ?? []), ...(topic.quotes ?? [])]);
+  });
+  return [...byName.values()].map(topic => ({
+    ...topic,
+    keyIdeas: dedupeStrings(topic.keyIdeas),
+    quotes: dedupeStrings(topic.quotes ?? []),
+  }));
+};
+
+const mergeDefinitions = (lists: Definition[][]): Definition[] => {
+  const byTerm = new Map<string, Definition>();
+  lists.flat().forEach(definition => {
+    const key = normalize(definition.term);
+    if (key && !byTerm.has(key)) byTerm.set(key, definition);
+  });
+  return [...byTerm.values()];
+};
+
+const mergeActionItems = (lists: ActionItem[][]): ActionItem[] => {
+  const byTask = new Map<string, ActionItem>();
+  lists.flat().forEach(item => {
+    const key = normalize(item.task);
+    if (key && !byTask.has(key)) byTask.set(key, item);
+  });
+  return [...byTask.values()];
+};
+
+// Averages the scores of topics rated in several segments. A topic whose tone
+// differs between segments is mixed.
+const mergeTopicSentiment = (lists: TopicSentiment[][]): TopicSentiment[] => {
+  const byTopic = new Map<string, TopicSentiment[]>();
+  lists.flat().forEach(item => {
+    const key = normalize(item.topic);
+    if (key) byTopic.set(key, [...(byTopic.get(key) ?? []), item]);
+  });
+  return [...byTopic.values()].map(items => ({
+    topic: items[0].topic,
+    sentiment: items.every(item => item.sentiment === items[0].sentiment) ? items[0].sentiment : 'mixed',
+    score: items.reduce((total, item) => total + item.score, 0) / items.length,
+  }));
+};
+
+// Joins the transcripts of consecutive segments, whose times must already be
+// relative to the whole recording. Turns that start inside the overlap with the
+// previous segment were already transcribed there and are dropped.
+const mergeTranscripts = (lists: TranscriptSegment[][]): TranscriptSegment[] => {
+  const merged: TranscriptSegment[] = [];
+  lists.forEach(list => {
+    const coveredUntil = merged.length > 0 ? merged[merged.length - 1].endSeconds : -Infinity;
+    merged.push(...list.filter(segment => segment.startSeconds >= coveredUntil));
+  });
+  return merged;
+};
+
+const mergeSection = (section: TemplateSection, parts: Notes[]): unknown => {
+  const values = parts.map(part => sectionValue(part, section));
+  const lists = <T,>() => values.map(value => (Array.isArray(value) ? value : []) as T[]);
+  switch (section.kind) {
+    case 'text':
+      return dedupeStrings(values.filter((value): value is string => typeof value === 'string')).join('\n\n');
+    case 'list':
+      return dedupeStrings(lists<string>().flat());
+    case 'participants':
+      return mergeParticipants(lists<Participant>());
+    case 'topics':
+      return mergeTopics(lists<Topic>());
+    case 'definitions':
+      return mergeDefinitions(lists<Definition>());
+    case 'actionItems':
+      return mergeActionItems(lists<ActionItem>());
+  }
+};
+
+// Combines the notes of consecutive segments into one Notes object, merging each
+// section of the template according to its kind. The title and summary are taken
+// from `overview`, which is synthesized separately since summaries cannot be
+// merged mechanically.
+export const mergeNotes = (parts: Notes[], overview: { title: string; summary: string }, template: NoteTemplate): Notes => {
+  const merged: Notes = {
+    ...notesFromOutput(overview, template),
+    transcript: mergeTranscripts(parts.map(p => p.transcript ?? [])),
+    analytics: {
+      speakers: [],
+      topicSentiment: mergeTopicSentiment(parts.map(p => p.analytics?.topicSentiment ?? [])),
+    },
+  };
+  return template.sections.reduce((notes, section) => withSectionValue(notes, section, mergeSection(section, parts)), merged);
+};
@@ -0,0 +1,140 @@
+import { Type, Schema } from "@google/genai";
+
+// Positions at which an incomplete document can be cut to drop a half-written
+// key or value: before a comma or colon, or just after an opening bracket.
+interface ScanResult {
+  closed: string;
+  cutPoints: number[];
+}
+
+// Appends whatever is needed to close an open string and the open arrays and
+// objects at the end of `text`.
+const closeOpenJson = (text: string): ScanResult => {
+  const stack: string[] = [];
+  const cutPoints: number[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    switch (char) {
+      case '"':
+        inString = true;
+        break;
+      case '{':
+        stack.push('}');
+        cutPoints.push(i + 1);
+        break;
+      case '[':
+        stack.push(']');
+        cutPoints.push(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        break;
+      case ',':
+      case ':':
+        cutPoints.push(i);
+        break;
+    }
+  }
+  // A dangling backslash would escape the closing quote.
+  const body = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+  return { closed: body + stack.reverse().join(''), cutPoints };
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// How many cut points to try before giving up on a chunk. The last complete
+// value is almost always within the last few.
+const MAX_CUT_ATTEMPTS = 4;
+
+// Parses the beginning of a JSON document that is still being streamed, e.g.
+// `{"title": "Weekly sy` gives `{ title: "Weekly sy" }`. Returns undefined when
+// nothing usable has arrived yet.
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+  const json = text.slice(start).replace(/\s*```\s*$/, '');
+
+  const { closed, cutPoints } = closeOpenJson(json);
+  const parsed = tryParse(closed);
+  if (parsed !== undefined) return parsed;
+  for (const cut of cutPoints.slice(-MAX_CUT_ATTEMPTS).reverse()) {
+    const value = tryParse(closeOpenJson(json.slice(0, cut)).closed);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+// Keeps the parts of a partial value that already match the schema. Strings may
+// still be growing, but objects inside arrays are only kept once their required
+// fields have arrived, so list items never render half-empty.
+const pruneToSchema = (value: unknown, schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        const pruned = pruneToSchema(input[key], propertySchema);
+        if (pruned !== undefined) result[key] = pruned;
+      }
+      return (schema.required ?? []).every(key => key in result) ? result : undefined;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return undefined;
+      return schema.items
+        ? value.map(item => pruneToSchema(item, schema.items!)).filter(item => item !== undefined)
+        : value;
+    case Type.STRING:
+      if (typeof value !== 'string') return undefined;
+      return schema.enum && !schema.enum.includes(value) ? undefined : value;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return typeof value === 'number' ? value : undefined;
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? value : undefined;
+    default:
+      return value;
+  }
+};
+
+const emptyValue = (schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.ARRAY:
+      return [];
+    case Type.STRING:
+      return '';
+    default:
+      return undefined;
+  }
+};
+
+// Turns streamed text into a preview of an object-typed response. Top-level
+// fields that haven't arrived yet are filled with empty strings and arrays so
+// the preview can be rendered like a finished response.
+export const previewPartialJson = <T>(text: string, schema: Schema): T | null => {
+  const parsed = parsePartialJson(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const input = parsed as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    const pruned = pruneToSchema(input[key], propertySchema);
+    const value = pruned === undefined ? emptyValue(propertySchema) : pruned;
+    if (value !== undefined) result[key] = value;
+  }
+  return result as T;
+};
@@ -0,0 +1,21 @@
+// Small user preferences persisted in localStorage. Values are stored as JSON;
+// read failures (private mode, corrupt data) fall back to the default.
+
+const PREFIX = 'voiceNotes.';
+
+export const loadPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save preference "${key}":`, err);
+  }
+};
@@ -0,0 +1,109 @@
+import { GoogleGenAI, Schema, FinishReason, GenerateContentResponse } from "@google/genai";
+import type { AudioInput, NotesProvider, RemoteFile, RequestHooks } from '../../types';
+import { blobToBase64 } from '../fileUtils';
+import { parseModelJson } from '../schemaValidator';
+import { GenerationError, GENERATION_ERROR_DETAILS } from '../generationErrors';
+import { uploadFile, deleteFile, UploadTarget } from '../fileUpload';
+import { GEMINI_API_BASE_URL } from '../../constants';
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+];
+
+// The client is created on first use so that the app can start, and other
+// providers can be used, without a Gemini API key.
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const audioParts = async (inputs: AudioInput[]) => {
+  const parts = [];
+  for (const input of inputs) {
+    if (input.label) {
+      parts.push({ text: `Audio track: ${input.label}` });
+    }
+    parts.push(input.file ? {
+      fileData: { fileUri: input.file.uri, mimeType: input.file.mimeType },
+    } : {
+      inlineData: {
+        mimeType: input.blob.type || 'audio/webm',
+        data: await blobToBase64(input.blob),
+      },
+    });
+  }
+  return parts;
+};
+
+// Thinking tokens are billed as output.
+const reportUsage = ({ usageMetadata }: GenerateContentResponse, { onUsage }: RequestHooks) => {
+  if (!usageMetadata || !onUsage) return;
+  onUsage({
+    inputTokens: usageMetadata.promptTokenCount ?? 0,
+    outputTokens: (usageMetadata.candidatesTokenCount ?? 0) + (usageMetadata.thoughtsTokenCount ?? 0),
+  });
+};
+
+// `uploadEndpoint` replaces the Gemini API for file uploads. It must be a proxy
+// that forwards uploads to the Gemini API and authenticates them itself: Gemini
+// can only read files it stores, and the API key is never sent to it. Empty to
+// upload to the Gemini API.
+export const createGeminiProvider = (model: string, uploadEndpoint = ''): NotesProvider => {
+  const uploadTarget: UploadTarget = uploadEndpoint
+    ? { baseUrl: uploadEndpoint }
+    : { baseUrl: GEMINI_API_BASE_URL, apiKey: process.env.API_KEY };
+
+  const throwIfBlocked = (response: GenerateContentResponse) => {
+    // Blocked responses come back as a success with no text.
+    if (response.promptFeedback?.blockReason || SAFETY_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason)) {
+      throw new GenerationError('safety', GENERATION_ERROR_DETAILS.safety.message);
+    }
+  };
+
+  const generate = async (parts: object[], schema: Schema, signal?: AbortSignal, hooks: RequestHooks = {}): Promise<unknown> => {
+    const request = {
+        model,
+        contents: [{ parts }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+    };
+    if (!hooks.onText) {
+      const response = await getClient().models.generateContent(request);
+      throwIfBlocked(response);
+      reportUsage(response, hooks);
+      return parseModelJson(response.text);
+    }
+
+    const stream = await getClient().models.generateContentStream(request);
+    let text = '';
+    let last: GenerateContentResponse | undefined;
+    for await (const chunk of stream) {
+      throwIfBlocked(chunk);
+      text += chunk.text ?? '';
+      hooks.onText(text);
+      last = chunk;
+    }
+    // Every chunk carries the running usage, so the last one has the totals.
+    if (last) reportUsage(last, hooks);
+    return parseModelJson(text);
+  };
+
+  return {
+    id: 'gemini',
+    label: `Google Gemini (${model})`,
+    model,
+    generateNotes: async (inputs: AudioInput[], prompt: string, schema: Schema, signal?: AbortSignal, hooks?: RequestHooks) =>
+      generate([...(await audioParts(inputs)), { text: prompt }], schema, signal, hooks),
+    generateJson: (prompt: string, schema: Schema, signal?: AbortSignal, hooks?: RequestHooks) =>
+      generate([{ text: prompt }], schema, signal, hooks),
+    uploadAudio: (blob: Blob, onProgress: (sentBytes: number) => void, signal?: AbortSignal) =>
+      uploadFile(uploadTarget, blob, { displayName: 'voice-notes-audio', onProgress, signal }),
+    deleteAudio: (file: RemoteFile) => deleteFile(uploadTarget, file),
+  };
+};
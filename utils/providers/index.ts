@@ -0,0 +1,49 @@
+import type { NotesProvider, ProviderId, ProviderSettings } from '../../types';
+import { GEMINI_MODEL_NAME, GEMINI_MODEL_OPTIONS } from '../../constants';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Uses the Gemini API key configured for this app.' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any chat completions API that accepts audio input.' },
+  { id: 'mock', label: 'Local mock', description: 'Returns placeholder notes without sending audio anywhere.' },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  geminiModel: GEMINI_MODEL_NAME,
+  openAi: { baseUrl: '', apiKey: '', model: 'gpt-4o-audio-preview' },
+  uploadEndpoint: '',
+};
+
+// Provider and model combinations the user can switch to, excluding the current one.
+export const listAlternativeModels = (settings: ProviderSettings): { key: string; label: string; settings: ProviderSettings }[] => {
+  const choices: { key: string; label: string; settings: ProviderSettings }[] = GEMINI_MODEL_OPTIONS.map(model => ({
+    key: `gemini:${model}`,
+    label: `Google Gemini (${model})`,
+    settings: { ...settings, providerId: 'gemini', geminiModel: model },
+  }));
+  if (settings.openAi.baseUrl) {
+    choices.push({
+      key: `openai:${settings.openAi.model}`,
+      label: `OpenAI-compatible (${settings.openAi.model})`,
+      settings: { ...settings, providerId: 'openai' },
+    });
+  }
+  const currentKey = settings.providerId === 'gemini'
+    ? `gemini:${settings.geminiModel}`
+    : settings.providerId === 'openai' ? `openai:${settings.openAi.model}` : 'mock';
+  return choices.filter(choice => choice.key !== currentKey);
+};
+
+export const createProvider = (settings: ProviderSettings): NotesProvider => {
+  switch (settings.providerId) {
+    case 'openai':
+      return createOpenAiProvider(settings.openAi);
+    case 'mock':
+      return createMockProvider(settings.uploadEndpoint);
+    default:
+      return createGeminiProvider(settings.geminiModel || GEMINI_MODEL_NAME, settings.uploadEndpoint);
+  }
+};
@@ -0,0 +1,79 @@
+import { Type, Schema } from "@google/genai";
+import type { AudioInput, NotesProvider, RemoteFile, RequestHooks } from '../../types';
+import { MOCK_PROVIDER_DELAY_MS } from '../../constants';
+import { uploadFile, deleteFile } from '../fileUpload';
+import { sleep } from '../generationErrors';
+
+// Builds a value matching the schema. The output depends only on the schema and
+// the seed, so the same input always yields the same notes.
+export const buildMockValue = (schema: Schema, name: string, seed: number): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, buildMockValue(value, key, seed)]));
+    case Type.ARRAY:
+      return schema.items
+        ? [0, 1].map(i => buildMockValue(schema.items!, `${name} ${i + 1}`, seed + i))
+        : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return seed;
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      return schema.enum?.length ? schema.enum[seed % schema.enum.length] : `Sample ${name}`;
+  }
+};
+
+const delay = (signal?: AbortSignal, ms = MOCK_PROVIDER_DELAY_MS) => sleep(ms, signal);
+
+// Number of pieces the mock response is streamed in.
+const STREAM_CHUNKS = 20;
+
+// Plays back the JSON text of `value` in pieces, like a streaming API would.
+const streamText = async (value: unknown, onText: (text: string) => void, signal?: AbortSignal) => {
+  const text = JSON.stringify(value);
+  const size = Math.ceil(text.length / STREAM_CHUNKS);
+  for (let end = size; end < text.length + size; end += size) {
+    await delay(signal, MOCK_PROVIDER_DELAY_MS / STREAM_CHUNKS);
+    onText(text.slice(0, end));
+  }
+};
+
+// Made-up token counts, so usage tracking can be tried out offline: about four
+// characters of text per token, and 32 audio tokens a second at 128 kbps.
+const reportUsage = ({ onUsage }: RequestHooks, prompt: string, response: unknown, audioBytes = 0) => onUsage?.({
+  inputTokens: Math.ceil(prompt.length / 4) + Math.ceil(audioBytes / 500),
+  outputTokens: Math.ceil(JSON.stringify(response).length / 4),
+});
+
+// Offline provider for development and demos. It never looks at the audio content.
+// With an upload endpoint, large audio is uploaded there first, which exercises
+// the upload path against a local stand-in server.
+export const createMockProvider = (uploadEndpoint = ''): NotesProvider => ({
+  id: 'mock',
+  label: 'Local mock',
+  model: 'mock',
+  ...(uploadEndpoint ? {
+    uploadAudio: (blob: Blob, onProgress: (sentBytes: number) => void, signal?: AbortSignal) =>
+      uploadFile({ baseUrl: uploadEndpoint }, blob, { displayName: 'voice-notes-audio', onProgress, signal }),
+    deleteAudio: (file: RemoteFile) => deleteFile({ baseUrl: uploadEndpoint }, file),
+  } : {}),
+  generateNotes: async (inputs: AudioInput[], prompt: string, schema: Schema, signal?: AbortSignal, hooks: RequestHooks = {}) => {
+    if (!hooks.onText) await delay(signal);
+    const bytes = inputs.reduce((total, input) => total + input.blob.size, 0);
+    const notes = {
+      ...(buildMockValue(schema, 'notes', prompt.length % 7) as Record<string, unknown>),
+      title: `Mock notes for ${inputs.length} track${inputs.length === 1 ? '' : 's'} (${Math.round(bytes / 1024)} KB)`,
+    };
+    if (hooks.onText) await streamText(notes, hooks.onText, signal);
+    reportUsage(hooks, prompt, notes, bytes);
+    return notes;
+  },
+  generateJson: async (prompt: string, schema: Schema, signal?: AbortSignal, hooks: RequestHooks = {}) => {
+    await delay(signal);
+    const result = buildMockValue(schema, 'result', prompt.length % 7);
+    reportUsage(hooks, prompt, result);
+    return result;
+  },
+});
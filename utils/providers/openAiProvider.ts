@@ -0,0 +1,142 @@
+import type { Schema } from "@google/genai";
+import type { AudioInput, NotesProvider, ProviderSettings, RequestHooks } from '../../types';
+import { SEGMENT_SAMPLE_RATE } from '../../constants';
+import { blobToBase64 } from '../fileUtils';
+import { convertAudio } from '../audioConverter';
+import { parseModelJson } from '../schemaValidator';
+import { GenerationError, GENERATION_ERROR_DETAILS, ProviderRequestError } from '../generationErrors';
+
+// Converts a Gemini schema to JSON Schema. Gemini uses upper-case type names and
+// otherwise mostly the same keywords.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = schema.type.toLowerCase();
+    json.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    json.additionalProperties = false;
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'input_audio'; input_audio: { data: string; format: 'wav' } };
+
+// OpenAI-compatible chat APIs accept only WAV or MP3 input audio, so everything
+// is sent as 16 kHz mono WAV.
+const toWav = async (blob: Blob): Promise<Blob> =>
+  blob.type === 'audio/wav' ? blob : convertAudio(blob, { format: 'wav', sampleRate: SEGMENT_SAMPLE_RATE, mono: true });
+
+const prepareAudio = async (inputs: AudioInput[]): Promise<AudioInput[]> => {
+  const prepared: AudioInput[] = [];
+  for (const input of inputs) {
+    prepared.push({ ...input, blob: await toWav(input.blob) });
+  }
+  return prepared;
+};
+
+const audioParts = async (inputs: AudioInput[]): Promise<ContentPart[]> => {
+  const parts: ContentPart[] = [];
+  for (const input of inputs) {
+    if (input.label) {
+      parts.push({ type: 'text', text: `Audio track: ${input.label}` });
+    }
+    parts.push({ type: 'input_audio', input_audio: { data: await blobToBase64(await toWav(input.blob)), format: 'wav' } });
+  }
+  return parts;
+};
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const reportUsage = (usage: ChatUsage | undefined, { onUsage }: RequestHooks) => {
+  if (!usage || !onUsage) return;
+  onUsage({ inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+};
+
+// Reads a server-sent event stream of chat completion chunks, reporting the
+// accumulated message text after each one. Usage arrives in the final chunk.
+const readStream = async (body: ReadableStream<Uint8Array>, hooks: RequestHooks): Promise<string> => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.startsWith('data:') || data === '[DONE]') continue;
+      const chunk = JSON.parse(data);
+      const choice = chunk?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new GenerationError('safety', GENERATION_ERROR_DETAILS.safety.message);
+      }
+      reportUsage(chunk?.usage ?? undefined, hooks);
+      if (!choice) continue;
+      text += choice.delta?.content ?? '';
+      hooks.onText?.(text);
+    }
+  }
+};
+
+export const createOpenAiProvider = ({ baseUrl, apiKey, model }: ProviderSettings['openAi']): NotesProvider => {
+  const generate = async (content: ContentPart[], schema: Schema, name: string, signal?: AbortSignal, hooks: RequestHooks = {}): Promise<unknown> => {
+    if (!baseUrl) {
+      throw new Error('No base URL is configured for the OpenAI-compatible provider.');
+    }
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name, schema: toJsonSchema(schema) },
+        },
+        ...(hooks.onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderRequestError(response.status, `OpenAI-compatible API request failed with status ${response.status}: ${detail.slice(0, 500)}`);
+    }
+    if (hooks.onText && response.body) {
+      return parseModelJson(await readStream(response.body, hooks));
+    }
+    const body = await response.json();
+    if (body?.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new GenerationError('safety', GENERATION_ERROR_DETAILS.safety.message);
+    }
+    reportUsage(body?.usage, hooks);
+    return parseModelJson(body?.choices?.[0]?.message?.content);
+  };
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${model})`,
+    model,
+    prepareAudio,
+    generateNotes: async (inputs: AudioInput[], prompt: string, schema: Schema, signal?: AbortSignal, hooks?: RequestHooks) =>
+      generate([...(await audioParts(inputs)), { type: 'text', text: prompt }], schema, 'notes', signal, hooks),
+    generateJson: (prompt: string, schema: Schema, signal?: AbortSignal, hooks?: RequestHooks) =>
+      generate([{ type: 'text', text: prompt }], schema, 'result', signal, hooks),
+  };
+};
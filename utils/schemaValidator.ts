@@ -0,0 +1,118 @@
+import { Type, Schema } from "@google/genai";
+
+// Raised when model output doesn't match the expected schema. `path` names the
+// offending field (e.g. "topics[2].keyIdeas") so the error can be shown to the user.
+export class SchemaValidationError extends Error {
+  readonly path: string;
+  readonly reason: string;
+  // The raw output that failed, kept so it can be sent back for repair.
+  output?: string;
+
+  constructor(path: string, reason: string, output?: string) {
+    super(`Invalid model output at "${path}": ${reason}`);
+    this.name = 'SchemaValidationError';
+    this.path = path;
+    this.reason = reason;
+    this.output = output;
+  }
+}
+
+const ROOT_PATH = '(root)';
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value);
+
+const joinPath = (path: string, key: string) => (path === ROOT_PATH ? key : `${path}.${key}`);
+
+// Checks `value` against a Gemini-style schema and returns a normalized copy:
+// missing optional arrays become empty arrays, numeric strings become numbers,
+// and properties not in the schema are dropped. Throws SchemaValidationError
+// for anything that can't be normalized.
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = ROOT_PATH): unknown => {
+  if (value === null || value === undefined) {
+    if (schema.nullable) return null;
+    throw new SchemaValidationError(path, 'value is missing');
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new SchemaValidationError(path, `expected an object but got ${describe(value)}`);
+      }
+      const input = value as Record<string, unknown>;
+      const required = new Set(schema.required ?? []);
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        const propertyValue = input[key];
+        if (propertyValue === undefined || propertyValue === null) {
+          if (required.has(key)) {
+            throw new SchemaValidationError(joinPath(path, key), 'required field is missing');
+          }
+          if (propertySchema.type === Type.ARRAY) result[key] = [];
+          continue;
+        }
+        result[key] = validateAgainstSchema(propertyValue, propertySchema, joinPath(path, key));
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        throw new SchemaValidationError(path, `expected an array but got ${describe(value)}`);
+      }
+      return schema.items
+        ? value.map((item, i) => validateAgainstSchema(item, schema.items!, `${path}[${i}]`))
+        : value;
+    }
+    case Type.STRING: {
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      if (typeof value !== 'string') {
+        throw new SchemaValidationError(path, `expected a string but got ${describe(value)}`);
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        throw new SchemaValidationError(path, `expected one of ${schema.enum.join(', ')} but got "${value}"`);
+      }
+      return value;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new SchemaValidationError(path, `expected a number but got ${describe(value)}`);
+      }
+      return schema.type === Type.INTEGER ? Math.round(number) : number;
+    }
+    case Type.BOOLEAN: {
+      if (typeof value !== 'boolean') {
+        throw new SchemaValidationError(path, `expected a boolean but got ${describe(value)}`);
+      }
+      return value;
+    }
+    default:
+      return value;
+  }
+};
+
+// Parses model output as JSON, tolerating a surrounding markdown code fence.
+export const parseModelJson = (text: string | undefined): unknown => {
+  const trimmed = (text ?? '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed) {
+    throw new SchemaValidationError(ROOT_PATH, 'the response was empty', text);
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new SchemaValidationError(ROOT_PATH, 'the response is not valid JSON', text);
+  }
+};
+
+// Validates parsed output and records it on the error, so callers can ask the
+// model to repair exactly what it produced.
+export const validateOutput = <T>(value: unknown, schema: Schema): T => {
+  try {
+    return validateAgainstSchema(value, schema) as T;
+  } catch (err) {
+    if (err instanceof SchemaValidationError && err.output === undefined) {
+      err.output = JSON.stringify(value);
+    }
+    throw err;
+  }
+};
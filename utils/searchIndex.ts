@@ -0,0 +1,144 @@
+import type { Notes, NoteTemplate } from '../types';
+import * as db from './db';
+import { LIBRARY_SEARCH_RESULTS, SEARCH_TRANSCRIPT_CHUNK_SECONDS } from '../constants';
+import { BUILT_IN_TEMPLATES, sectionValue } from './templates';
+
+// Common words that say nothing about what a passage is about.
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'them', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'our', 'us',
+]);
+
+// Lowercases, splits on anything that isn't a letter or digit and drops stop
+// words and plural endings, so "Decisions" matches "decision".
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+// Flattens any section value (text, lists, participants, topics...) to plain text.
+const flatten = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(flatten).filter(Boolean).join('\n');
+  if (value && typeof value === 'object') return Object.values(value).map(flatten).filter(Boolean).join(' — ');
+  return '';
+};
+
+// How often `term` occurs in a passage. Terms are looked up as own keys only, so
+// words like "constructor" don't hit Object.prototype.
+const termFrequency = (chunk: db.SearchChunk, term: string): number =>
+  Object.hasOwn(chunk.terms, term) ? chunk.terms[term] : 0;
+
+const buildChunk = (label: string, text: string, startSeconds?: number): db.SearchChunk => {
+  const terms: Record<string, number> = Object.create(null);
+  const tokens = tokenize(`${label} ${text}`);
+  tokens.forEach(token => { terms[token] = (terms[token] ?? 0) + 1; });
+  return { label, text, terms, length: tokens.length, ...(startSeconds !== undefined ? { startSeconds } : {}) };
+};
+
+const buildChunks = (notes: Notes, template?: NoteTemplate): db.SearchChunk[] => {
+  const chunks = [buildChunk('Summary', `${notes.title}\n${notes.summary}`)];
+
+  (template ?? BUILT_IN_TEMPLATES[0]).sections.forEach(section => {
+    const text = flatten(sectionValue(notes, section));
+    if (text) chunks.push(buildChunk(section.title, text));
+  });
+
+  // Group transcript turns into stretches of roughly equal length.
+  let stretch: NonNullable<Notes['transcript']> = [];
+  const flush = () => {
+    if (stretch.length === 0) return;
+    chunks.push(buildChunk('Transcript', stretch.map(turn => `${turn.speaker}: ${turn.text}`).join('\n'), stretch[0].startSeconds));
+    stretch = [];
+  };
+  (notes.transcript ?? []).forEach(turn => {
+    if (stretch.length > 0 && turn.startSeconds - stretch[0].startSeconds >= SEARCH_TRANSCRIPT_CHUNK_SECONDS) flush();
+    stretch.push(turn);
+  });
+  flush();
+
+  return chunks.filter(chunk => chunk.length > 0);
+};
+
+// Adds or replaces a note in the search index. Call whenever a note's primary
+// version changes.
+export const indexNote = (record: db.NoteRecord): Promise<void> =>
+  db.putSearchIndexEntry({
+    noteId: record.id,
+    title: record.notes.title,
+    createdAt: record.createdAt,
+    chunks: buildChunks(record.notes, record.template),
+  });
+
+// Brings the index in line with the stored notes: indexes notes saved before the
+// index existed and drops entries whose note is gone. Only missing notes are read.
+export const syncSearchIndex = async (): Promise<void> => {
+  const [notes, entries] = await Promise.all([db.getAllNotesMeta(), db.getAllSearchIndexEntries()]);
+  const noteIds = new Set(notes.map(note => note.id));
+  const indexedIds = new Set(entries.map(entry => entry.noteId));
+
+  const stale = [...indexedIds].filter(id => !noteIds.has(id));
+  if (stale.length > 0) await db.deleteSearchIndexEntries(stale);
+
+  for (const note of notes) {
+    if (indexedIds.has(note.id)) continue;
+    const record = await db.getNote(note.id);
+    if (record) await indexNote(record);
+  }
+};
+
+export interface SearchResult {
+  noteId: string;
+  title: string;
+  createdAt: Date;
+  label: string;
+  text: string;
+  startSeconds?: number;
+  score: number;
+}
+
+// BM25 parameters: term frequency saturation and length normalization.
+const K1 = 1.2;
+const B = 0.75;
+
+// Ranks every indexed passage against the query with BM25.
+export const searchNotes = async (query: string, limit = LIBRARY_SEARCH_RESULTS): Promise<SearchResult[]> => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return [];
+
+  const entries = await db.getAllSearchIndexEntries();
+  const passages = entries.flatMap(entry => entry.chunks.map(chunk => ({ entry, chunk })));
+  if (passages.length === 0) return [];
+
+  const averageLength = passages.reduce((total, { chunk }) => total + chunk.length, 0) / passages.length;
+  const idf = new Map(queryTerms.map(term => {
+    const containing = passages.filter(({ chunk }) => termFrequency(chunk, term) > 0).length;
+    return [term, Math.log(1 + (passages.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return passages
+    .map(({ entry, chunk }) => {
+      const score = queryTerms.reduce((total, term) => {
+        const frequency = termFrequency(chunk, term);
+        if (frequency === 0) return total;
+        const norm = frequency + K1 * (1 - B + B * (chunk.length / averageLength));
+        return total + (idf.get(term) ?? 0) * (frequency * (K1 + 1)) / norm;
+      }, 0);
+      return {
+        noteId: entry.noteId,
+        title: entry.title,
+        createdAt: entry.createdAt,
+        label: chunk.label,
+        text: chunk.text,
+        startSeconds: chunk.startSeconds,
+        score,
+      };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,131 @@
+import { SEGMENT_SAMPLE_RATE, TRIM_MIN_SILENCE_SECONDS, TRIM_PADDING_SECONDS, VOICE_ACTIVITY_RMS_THRESHOLD } from '../constants';
+import { decodeAudioBlob } from './audioConverter';
+import { encodeSpeech } from './audioSegmenter';
+
+// Length of the analysis window used to classify audio as speech or silence.
+const WINDOW_SECONDS = 0.05;
+
+export interface TimeRange {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface TrimResult {
+  blob: Blob;
+  durationSeconds: number;
+  removedSeconds: number;
+  // Ranges of the original audio that were cut out, in chronological order.
+  removedRanges: TimeRange[];
+}
+
+// Finds silent stretches longer than `minSilenceSeconds`, shrunk by `paddingSeconds`
+// on each side so that the start and end of speech around them are kept.
+export const findSilentRanges = (
+  buffer: AudioBuffer,
+  minSilenceSeconds = TRIM_MIN_SILENCE_SECONDS,
+  paddingSeconds = TRIM_PADDING_SECONDS,
+): TimeRange[] => {
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * WINDOW_SECONDS));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const ranges: TimeRange[] = [];
+  let silenceStart: number | null = null;
+
+  const closeRange = (endFrame: number) => {
+    if (silenceStart === null) return;
+    const start = silenceStart / buffer.sampleRate + paddingSeconds;
+    const end = endFrame / buffer.sampleRate - paddingSeconds;
+    if (end - start >= minSilenceSeconds - 2 * paddingSeconds && end > start) {
+      ranges.push({ startSeconds: start, endSeconds: end });
+    }
+    silenceStart = null;
+  };
+
+  for (let frame = 0; frame < buffer.length; frame += windowSize) {
+    const windowEnd = Math.min(buffer.length, frame + windowSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = frame; i < windowEnd; i++) {
+        sum += data[i] * data[i];
+      }
+    }
+    const rms = Math.sqrt(sum / ((windowEnd - frame) * channels.length));
+    if (rms < VOICE_ACTIVITY_RMS_THRESHOLD) {
+      if (silenceStart === null) silenceStart = frame;
+    } else {
+      closeRange(frame);
+    }
+  }
+  closeRange(buffer.length);
+  return ranges;
+};
+
+// Builds a mono buffer with the given ranges cut out.
+const cutRanges = (buffer: AudioBuffer, ranges: TimeRange[]): AudioBuffer => {
+  const sampleRate = buffer.sampleRate;
+  const keptFrames = buffer.length - ranges.reduce(
+    (total, r) => total + (Math.floor(r.endSeconds * sampleRate) - Math.floor(r.startSeconds * sampleRate)), 0);
+  const trimmed = new AudioBuffer({ length: Math.max(1, keptFrames), numberOfChannels: 1, sampleRate });
+  const output = trimmed.getChannelData(0);
+
+  let writeOffset = 0;
+  let readOffset = 0;
+  const copyUntil = (endFrame: number) => {
+    const end = Math.min(endFrame, buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel).subarray(readOffset, end);
+      for (let i = 0; i < data.length && writeOffset + i < output.length; i++) {
+        output[writeOffset + i] += data[i] / buffer.numberOfChannels;
+      }
+    }
+    writeOffset += Math.max(0, end - readOffset);
+  };
+  ranges.forEach(range => {
+    copyUntil(Math.floor(range.startSeconds * sampleRate));
+    readOffset = Math.floor(range.endSeconds * sampleRate);
+  });
+  copyUntil(buffer.length);
+  return trimmed;
+};
+
+// Removes long silences from a recording. The result is re-encoded as mono Opus
+// at the same low sample rate and bitrate used for uploads, so the stored
+// recording doesn't grow.
+export const trimSilence = async (blob: Blob): Promise<TrimResult> => {
+  const buffer = await decodeAudioBlob(blob, SEGMENT_SAMPLE_RATE);
+  const removedRanges = findSilentRanges(buffer);
+  const removedSeconds = removedRanges.reduce((total, r) => total + (r.endSeconds - r.startSeconds), 0);
+
+  if (removedRanges.length === 0) {
+    return { blob, durationSeconds: Math.round(buffer.duration), removedSeconds: 0, removedRanges };
+  }
+
+  const trimmed = cutRanges(buffer, removedRanges);
+  return {
+    blob: await encodeSpeech(trimmed),
+    durationSeconds: Math.round(trimmed.duration),
+    removedSeconds,
+    removedRanges,
+  };
+};
+
+// Cuts the same ranges out of another recording, e.g. to keep the separate
+// source tracks aligned with a trimmed mix.
+export const removeRanges = async (blob: Blob, ranges: TimeRange[]): Promise<Blob> => {
+  if (ranges.length === 0) return blob;
+  const buffer = await decodeAudioBlob(blob, SEGMENT_SAMPLE_RATE);
+  return encodeSpeech(cutRanges(buffer, ranges));
+};
+
+// Maps a time in the original recording to the trimmed one. Times inside a
+// removed range land where that range was cut.
+export const remapTime = (timeSeconds: number, removedRanges: TimeRange[]): number => {
+  let shift = 0;
+  for (const range of removedRanges) {
+    if (timeSeconds <= range.startSeconds) break;
+    if (timeSeconds < range.endSeconds) {
+      return Math.max(0, range.startSeconds - shift);
+    }
+    shift += range.endSeconds - range.startSeconds;
+  }
+  return Math.max(0, timeSeconds - shift);
+};
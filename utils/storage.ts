@@ -0,0 +1,87 @@
+import * as db from './db';
+import { STORAGE_PREFLIGHT_RECORDING_MINUTES, RECORDING_BITRATE, RECORDING_BITRATE_NOISE_REDUCTION } from '../constants';
+
+export interface StorageStatus {
+  usageBytes: number;
+  quotaBytes: number;
+  // Whether the browser has agreed not to evict our data under storage pressure.
+  persisted: boolean;
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+// Returns null when the browser doesn't expose the Storage API.
+export const getStorageStatus = async (): Promise<StorageStatus | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return { usageBytes: estimate.usage ?? 0, quotaBytes: estimate.quota ?? 0, persisted };
+  } catch (err) {
+    console.error("Failed to estimate storage:", err);
+    return null;
+  }
+};
+
+// Asks the browser to exempt the database from eviction. Some browsers grant this
+// silently, others show a prompt, and it may be refused.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+  } catch (err) {
+    console.error("Failed to request persistent storage:", err);
+    return false;
+  }
+};
+
+export const isQuotaExceededError = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Approximate bytes written per second of recording. Audio is stored twice until
+// the note is saved (crash-recovery chunks plus the final note), and separate
+// source tracks are stored instead of the mix, one per source.
+export const estimateRecordingBytesPerSecond = (options: { noiseReduction: boolean; separateTracks: boolean }): number => {
+  const bitrate = options.noiseReduction ? RECORDING_BITRATE_NOISE_REDUCTION : RECORDING_BITRATE;
+  const copies = 2 * (options.separateTracks ? 2 : 1);
+  return (bitrate / 8) * copies;
+};
+
+// Returns a warning when the remaining quota is unlikely to fit a recording of
+// typical length, or null when there is enough room or no estimate is available.
+export const checkRecordingCapacity = async (
+  options: { noiseReduction: boolean; separateTracks: boolean },
+): Promise<string | null> => {
+  const status = await getStorageStatus();
+  if (!status || status.quotaBytes === 0) return null;
+  const remainingBytes = Math.max(0, status.quotaBytes - status.usageBytes);
+  const remainingMinutes = Math.floor(remainingBytes / estimateRecordingBytesPerSecond(options) / 60);
+  if (remainingMinutes >= STORAGE_PREFLIGHT_RECORDING_MINUTES) return null;
+  return `Only ${formatBytes(remainingBytes)} of browser storage is left, enough for about ${remainingMinutes} minute${remainingMinutes === 1 ? '' : 's'} of recording. Delete old notes in History to free up space.`;
+};
+
+// Saves a note, dropping its audio if the full record doesn't fit in the quota so
+// that freshly generated notes are never lost. Resolves with whether audio was kept.
+export const saveNoteWithFallback = async (record: db.NoteRecord): Promise<{ audioSaved: boolean }> => {
+  try {
+    await db.addNote(record);
+    return { audioSaved: true };
+  } catch (err) {
+    if (!isQuotaExceededError(err)) throw err;
+    console.warn("Storage quota exceeded, saving notes without audio.");
+    await db.addNote({ ...record, audioBlob: null, sourceTracks: undefined });
+    return { audioSaved: false };
+  }
+};
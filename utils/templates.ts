@@ -0,0 +1,239 @@
+import { Type, Schema } from "@google/genai";
+import type { Notes, NoteTemplate, TemplateSection, TemplateSectionKind, TopicSentiment } from '../types';
+import {
+  GEMINI_OUTPUT_INSTRUCTIONS, PARTICIPANT_SCHEMA, TOPIC_SCHEMA, DEFINITION_SCHEMA,
+  ACTION_ITEM_SCHEMA, TRANSCRIPT_SCHEMA, TOPIC_SENTIMENT_SCHEMA,
+} from '../constants';
+
+export const DEFAULT_TEMPLATE_ID = 'meeting';
+
+export const SECTION_KIND_LABELS: Record<TemplateSectionKind, string> = {
+  text: 'Paragraph',
+  list: 'Bullet list',
+  participants: 'People',
+  topics: 'Topics with key ideas and quotes',
+  definitions: 'Terms and definitions',
+  actionItems: 'Tasks with assignees',
+};
+
+// Fields every template produces, which can't be used as section keys.
+const RESERVED_KEYS = ['title', 'summary', 'transcript', 'topicSentiment', 'analytics', 'sections'];
+
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'meeting',
+    name: 'Meeting',
+    description: 'Participants, topics, decisions and action items.',
+    prompt: `You are a world-class AI assistant specializing in analyzing audio recordings of meetings and discussions.
+Your task is to transcribe and structure the content into a detailed, clear, and actionable summary.
+Please identify speakers, topics, key decisions, and action items.
+`,
+    sections: [
+      { key: 'participants', title: 'Participants', kind: 'participants', description: 'A list of people who spoke, including their name and role if mentioned.' },
+      { key: 'decisions', title: 'Decisions Made', kind: 'list', description: 'A list of clear, final decisions that were made during the discussion.' },
+      { key: 'actionItems', title: 'Action Items', kind: 'actionItems', description: 'A list of action items or follow-ups, with the task and the person assigned.' },
+      { key: 'topics', title: 'Discussion Topics', kind: 'topics', description: 'A breakdown of the main discussion points, summarized by topic.' },
+      { key: 'definitions', title: 'Key Definitions', kind: 'definitions', description: 'A list of important terms and their definitions as discussed in the audio.', optional: true },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture',
+    description: 'Learning objectives, key concepts, definitions and follow-up work.',
+    prompt: `You are an expert teaching assistant analyzing an audio recording of a lecture, class or talk.
+Your task is to turn it into clear study notes that a student who missed the session could learn from.
+Focus on what the audience is meant to learn, the concepts explained and any work assigned.
+`,
+    sections: [
+      { key: 'learningObjectives', title: 'Learning Objectives', kind: 'list', description: 'What the audience should understand or be able to do after this session.' },
+      { key: 'topics', title: 'Key Concepts', kind: 'topics', description: 'The main concepts explained, each with its key ideas and notable quotes.' },
+      { key: 'definitions', title: 'Key Definitions', kind: 'definitions', description: 'Important terms and their definitions as explained by the speaker.' },
+      { key: 'examples', title: 'Examples', kind: 'list', description: 'Worked examples, demonstrations or case studies used to illustrate the concepts.', optional: true },
+      { key: 'openQuestions', title: 'Questions to Review', kind: 'list', description: 'Questions raised by the audience or left open, and points worth reviewing.', optional: true },
+      { key: 'assignments', title: 'Assignments & Readings', kind: 'list', description: 'Homework, readings, deadlines and other follow-up work that was assigned.', optional: true },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'interview',
+    name: 'Customer Interview',
+    description: 'Customer pain points, product feedback, requests and next steps.',
+    prompt: `You are an experienced user researcher analyzing an audio recording of a customer interview.
+Your task is to capture what the customer said about their needs, problems and experience, as faithfully as possible.
+Distinguish the customer's own words and opinions from the interviewer's questions, and avoid adding interpretation that was not said.
+`,
+    sections: [
+      { key: 'participants', title: 'Participants', kind: 'participants', description: 'The interviewer(s) and the customer, with their company or role if mentioned.' },
+      { key: 'painPoints', title: 'Pain Points', kind: 'list', description: 'Problems, frustrations and unmet needs the customer described, in their own terms.' },
+      { key: 'feedback', title: 'Product Feedback', kind: 'list', description: 'What the customer said about the product or service, both positive and negative.' },
+      { key: 'featureRequests', title: 'Requests & Ideas', kind: 'list', description: 'Features, changes or ideas the customer asked for or suggested.', optional: true },
+      { key: 'quotes', title: 'Notable Quotes', kind: 'list', description: 'Direct, verbatim quotes from the customer that capture their view.' },
+      { key: 'actionItems', title: 'Next Steps', kind: 'actionItems', description: 'Follow-ups agreed during the interview, with the task and the person assigned.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'one-on-one',
+    name: '1:1',
+    description: 'Updates, concerns, feedback and topics for next time.',
+    prompt: `You are a thoughtful assistant analyzing an audio recording of a one-on-one conversation between a manager and a team member.
+Your task is to capture the updates shared, concerns raised, feedback given in either direction and the agreed follow-ups.
+Keep a neutral, respectful tone and do not speculate beyond what was said.
+`,
+    sections: [
+      { key: 'updates', title: 'Updates & Wins', kind: 'list', description: 'Progress, achievements and status updates that were shared.' },
+      { key: 'concerns', title: 'Blockers & Concerns', kind: 'list', description: 'Problems, blockers, worries or wellbeing concerns that were raised.' },
+      { key: 'feedback', title: 'Feedback', kind: 'list', description: 'Feedback given in either direction, noting who gave it.' },
+      { key: 'actionItems', title: 'Action Items', kind: 'actionItems', description: 'Follow-ups agreed during the conversation, with the task and the person assigned.' },
+      { key: 'nextTopics', title: 'Topics for Next 1:1', kind: 'list', description: 'Topics that were deferred or that should be revisited next time.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'brainstorm',
+    name: 'Brainstorm',
+    description: 'Themes and ideas, the most promising ones, open questions and next steps.',
+    prompt: `You are a skilled facilitator analyzing an audio recording of a brainstorming session.
+Your task is to capture every idea that was put forward, grouped into themes, and to highlight which ideas got the most support.
+Record ideas even if they were only mentioned briefly.
+`,
+    sections: [
+      { key: 'topics', title: 'Themes & Ideas', kind: 'topics', description: 'The themes that emerged, each with the ideas proposed under it and notable quotes.' },
+      { key: 'topIdeas', title: 'Most Promising Ideas', kind: 'list', description: 'The ideas the group was most enthusiastic about or chose to pursue.' },
+      { key: 'openQuestions', title: 'Open Questions', kind: 'list', description: 'Questions, risks and unknowns that still need to be explored.' },
+      { key: 'actionItems', title: 'Next Steps', kind: 'actionItems', description: 'Follow-ups agreed during the session, with the task and the person assigned.' },
+    ],
+    builtIn: true,
+  },
+];
+
+type TypedSectionKey = 'participants' | 'topics' | 'definitions' | 'decisions' | 'actionItems';
+
+// Sections stored in the typed fields of Notes, with the kind each must have.
+const TYPED_SECTION_KINDS = new Map<string, TemplateSectionKind>([
+  ['participants', 'participants'],
+  ['topics', 'topics'],
+  ['definitions', 'definitions'],
+  ['decisions', 'list'],
+  ['actionItems', 'actionItems'],
+]);
+
+const isTypedSection = (section: TemplateSection) => TYPED_SECTION_KINDS.get(section.key) === section.kind;
+
+export const sectionValue = (notes: Notes, section: TemplateSection): unknown =>
+  isTypedSection(section) ? notes[section.key as TypedSectionKey] : notes.sections?.[section.key];
+
+// Returns a copy of `notes` with the value of one section replaced.
+export const withSectionValue = (notes: Notes, section: TemplateSection, value: unknown): Notes =>
+  isTypedSection(section)
+    ? { ...notes, [section.key]: value }
+    : { ...notes, sections: { ...notes.sections, [section.key]: value } };
+
+// Builds notes from a response to the template schema, which has every section
+// as a top-level property. Notes stored before custom sections were moved into
+// `sections` have the same shape. The model's topic sentiment is kept in
+// `analytics` until the rest of the analytics is added.
+export const notesFromOutput = (output: Record<string, unknown>, template: NoteTemplate): Notes => {
+  const { title, summary, transcript, topicSentiment, analytics } = output;
+  let notes: Notes = {
+    title: typeof title === 'string' ? title : '',
+    summary: typeof summary === 'string' ? summary : '',
+    participants: [],
+    topics: [],
+    decisions: [],
+    actionItems: [],
+    ...(Array.isArray(transcript) ? { transcript: transcript as Notes['transcript'] } : {}),
+  };
+  if (analytics && typeof analytics === 'object') {
+    notes.analytics = analytics as Notes['analytics'];
+  } else if (Array.isArray(topicSentiment)) {
+    notes.analytics = { speakers: [], topicSentiment: topicSentiment as TopicSentiment[] };
+  }
+  template.sections.forEach(section => {
+    if (Object.hasOwn(output, section.key)) notes = withSectionValue(notes, section, output[section.key]);
+  });
+  return notes;
+};
+
+// The inverse of notesFromOutput, without the transcript and analytics: the
+// title, summary and each section as top-level properties, as the model sees them.
+export const notesToOutput = (notes: Notes, template: NoteTemplate): Record<string, unknown> => ({
+  title: notes.title,
+  summary: notes.summary,
+  ...Object.fromEntries(template.sections.map(section => [section.key, sectionValue(notes, section)])),
+});
+
+const sectionSchema = (section: TemplateSection): Schema => {
+  const arrayOf = (items: Schema): Schema => ({ type: Type.ARRAY, description: section.description, items });
+  switch (section.kind) {
+    case 'text':
+      return { type: Type.STRING, description: section.description };
+    case 'list':
+      return arrayOf({ type: Type.STRING });
+    case 'participants':
+      return arrayOf(PARTICIPANT_SCHEMA);
+    case 'topics':
+      return arrayOf(TOPIC_SCHEMA);
+    case 'definitions':
+      return arrayOf(DEFINITION_SCHEMA);
+    case 'actionItems':
+      return arrayOf(ACTION_ITEM_SCHEMA);
+  }
+};
+
+// Builds the response schema for a template: the shared title, summary,
+// transcript and optional topic sentiment fields plus one property per section.
+// Translations leave out the transcript, which stays in the spoken language, and
+// the sentiment, which is part of the original notes' analytics.
+export const buildTemplateSchema = (template: NoteTemplate, { transcript = true } = {}): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: "A concise and descriptive title for the recording.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "A comprehensive final summary of the entire recording and its key takeaways.",
+    },
+    ...Object.fromEntries(template.sections.map(section => [section.key, sectionSchema(section)])),
+    ...(transcript ? { transcript: TRANSCRIPT_SCHEMA, topicSentiment: TOPIC_SENTIMENT_SCHEMA } : {}),
+  },
+  required: [
+    'title',
+    'summary',
+    ...template.sections.filter(section => !section.optional).map(section => section.key),
+    ...(transcript ? ['transcript'] : []),
+  ],
+});
+
+export const buildTemplatePrompt = (template: NoteTemplate): string =>
+  `${template.prompt.trim()}\n${GEMINI_OUTPUT_INSTRUCTIONS}`;
+
+export const findTemplate = (templates: NoteTemplate[], id: string | undefined): NoteTemplate =>
+  templates.find(template => template.id === id) ?? BUILT_IN_TEMPLATES[0];
+
+// Derives a unique camelCase property name for a custom section from its title.
+export const sectionKeyFromTitle = (title: string, existingKeys: string[]): string => {
+  const words = title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const camelCase = words.length > 0
+    ? words[0] + words.slice(1).map(word => word[0].toUpperCase() + word.slice(1)).join('')
+    : 'section';
+  const base = /^[0-9]/.test(camelCase) ? `section${camelCase}` : camelCase;
+  const taken = new Set([...RESERVED_KEYS, ...existingKeys]);
+  let key = base;
+  for (let i = 2; taken.has(key); i++) {
+    key = `${base}${i}`;
+  }
+  return key;
+};
+
+// Returns a problem with a custom template, or null if it can be saved.
+export const validateTemplate = (template: NoteTemplate): string | null => {
+  if (!template.name.trim()) return 'Give the template a name.';
+  if (!template.prompt.trim()) return 'Describe the recording type in the instructions.';
+  if (template.sections.length === 0) return 'Add at least one section.';
+  if (template.sections.some(section => !section.title.trim())) return 'Every section needs a title.';
+  return null;
+};
@@ -0,0 +1,46 @@
+import type { SourceTracks } from '../types';
+import { SEGMENT_DURATION_SECONDS, SEGMENT_SAMPLE_RATE, UPLOAD_OPUS_BITRATE } from '../constants';
+import { createOggOpusEncoder, encodeWav, isOpusEncodingSupported } from './audioConverter';
+import { createWindowReader } from './audioWindows';
+
+// Joins mono buffers end to end.
+const concatBuffers = (buffers: AudioBuffer[]): AudioBuffer => {
+  const length = buffers.reduce((total, buffer) => total + buffer.length, 0);
+  const joined = new AudioBuffer({ length: Math.max(1, length), numberOfChannels: 1, sampleRate: SEGMENT_SAMPLE_RATE });
+  let offset = 0;
+  buffers.forEach(buffer => {
+    joined.copyToChannel(buffer.getChannelData(0), 0, offset);
+    offset += buffer.length;
+  });
+  return joined;
+};
+
+// Mixes separately recorded sources into one recording for playback and download,
+// since notes with source tracks don't store the mix. The tracks are read a
+// segment at a time and the mix is encoded like trimmed recordings: as mono Opus
+// at the low sample rate used for uploads, or as WAV without an Opus encoder.
+export const mixTracks = async ({ mic, system }: SourceTracks): Promise<Blob> => {
+  const readers = [await createWindowReader(mic, SEGMENT_SAMPLE_RATE), await createWindowReader(system, SEGMENT_SAMPLE_RATE)];
+  const durationSeconds = Math.max(...readers.map(reader => reader.durationSeconds));
+  const encoder = await isOpusEncodingSupported(SEGMENT_SAMPLE_RATE, 1)
+    ? createOggOpusEncoder(SEGMENT_SAMPLE_RATE, 1, UPLOAD_OPUS_BITRATE)
+    : null;
+  const wavParts: AudioBuffer[] = [];
+
+  for (let start = 0; start < durationSeconds; start += SEGMENT_DURATION_SECONDS) {
+    const end = Math.min(durationSeconds, start + SEGMENT_DURATION_SECONDS);
+    const mixed = new AudioBuffer({ length: Math.max(1, Math.round((end - start) * SEGMENT_SAMPLE_RATE)), numberOfChannels: 1, sampleRate: SEGMENT_SAMPLE_RATE });
+    const output = mixed.getChannelData(0);
+    for (const reader of readers) {
+      // Sources are summed, as they are in the live mix.
+      const data = (await reader.read(start, end)).getChannelData(0);
+      for (let i = 0; i < Math.min(data.length, output.length); i++) {
+        output[i] += data[i];
+      }
+    }
+    if (encoder) encoder.encode(mixed);
+    else wavParts.push(mixed);
+  }
+
+  return encoder ? encoder.finish() : encodeWav(concatBuffers(wavParts));
+};
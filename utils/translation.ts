@@ -0,0 +1,44 @@
+import type { Notes, NoteTemplate, NotesProvider, TokenUsage } from '../types';
+import { GEMINI_TRANSLATE_PROMPT, OUTPUT_LANGUAGES, GENERATION_MAX_RETRIES, GENERATION_RETRY_BASE_DELAY_MS } from '../constants';
+import { BUILT_IN_TEMPLATES, buildTemplateSchema, notesFromOutput, notesToOutput } from './templates';
+import { withRetry } from './generationErrors';
+import { validateOutput } from './schemaValidator';
+
+export const findLanguage = (code: string | null | undefined) =>
+  OUTPUT_LANGUAGES.find(language => language.code === code);
+
+// Tells the model which language to write the notes in. The transcript stays in
+// the spoken language so it matches the audio.
+export const buildLanguagePrompt = (code: string | null | undefined): string => {
+  const language = findLanguage(code);
+  if (!language) return '';
+  return `
+Write the title, summary and all other notes in ${language.name}, whatever language is spoken in the recording.
+Keep the transcript in the language that was actually spoken.
+`;
+};
+
+// Produces a copy of `notes` in another language, without the transcript.
+export const translateNotes = async (
+  provider: NotesProvider,
+  notes: Notes,
+  template: NoteTemplate | undefined,
+  code: string,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<Notes> => {
+  const language = findLanguage(code);
+  if (!language) throw new Error(`Unsupported language: ${code}`);
+  const resolved = template ?? BUILT_IN_TEMPLATES[0];
+  const schema = buildTemplateSchema(resolved, { transcript: false });
+  const prompt = `${GEMINI_TRANSLATE_PROMPT}
+Target language: ${language.name}
+
+${JSON.stringify(notesToOutput(notes, resolved))}
+`;
+  const response = await withRetry(
+    () => provider.generateJson(prompt, schema, signal, { onUsage }),
+    { retries: GENERATION_MAX_RETRIES, baseDelayMs: GENERATION_RETRY_BASE_DELAY_MS, signal },
+  );
+  return notesFromOutput(validateOutput<Record<string, unknown>>(response, schema), resolved);
+};
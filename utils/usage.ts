@@ -0,0 +1,96 @@
+import type { ModelPrice, NoteUsage, TokenUsage, UsageRecord, UsageSettings } from '../types';
+import { AUDIO_TOKENS_PER_SECOND, BUDGET_WARNING_FRACTION } from '../constants';
+
+export type UsagePeriod = 'day' | 'week' | 'month';
+
+export interface UsageBucket extends TokenUsage {
+  // Start of the day, week (Monday) or month, in local time.
+  start: Date;
+  // Requests for notes; chat, library and translation requests only add to
+  // the tokens and cost.
+  generations: number;
+  audioSeconds: number;
+  costUsd: number;
+  // Some generations used a model without a price, so `costUsd` is too low.
+  hasUnpricedUsage: boolean;
+}
+
+const findPrice = (prices: ModelPrice[], model: string) =>
+  prices.find(price => price.model.trim().toLowerCase() === model.toLowerCase());
+
+// Returns null when the price table has no entry for the model.
+export const estimateCost = (usage: TokenUsage, model: string, prices: ModelPrice[]): number | null => {
+  const price = findPrice(prices, model);
+  if (!price) return null;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+// Lower bound for the cost of generating notes for a recording, counting only
+// the audio tokens sent.
+export const estimateRecordingCost = (durationSeconds: number, model: string, prices: ModelPrice[]): number | null =>
+  estimateCost({ inputTokens: Math.ceil(durationSeconds * AUDIO_TOKENS_PER_SECOND), outputTokens: 0 }, model, prices);
+
+// Adds up the token counts reported by the requests of one operation.
+export const createTokenCounter = () => {
+  const tokens: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const onUsage = (usage: TokenUsage) => {
+    tokens.inputTokens += usage.inputTokens;
+    tokens.outputTokens += usage.outputTokens;
+  };
+  return { tokens, onUsage };
+};
+
+export const periodStart = (date: Date, period: UsagePeriod): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), period === 'month' ? 1 : date.getDate());
+  if (period === 'week') {
+    // getDay() is 0 for Sunday; weeks start on Monday.
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+};
+
+// Totals per day, week or month, newest first. Periods without usage are omitted.
+export const aggregateUsage = (usages: UsageRecord[], period: UsagePeriod): UsageBucket[] => {
+  const buckets = new Map<number, UsageBucket>();
+  usages.forEach(usage => {
+    const start = periodStart(new Date(usage.createdAt), period);
+    const bucket = buckets.get(start.getTime()) ?? {
+      start, generations: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, costUsd: 0, hasUnpricedUsage: false,
+    };
+    if (usage.kind === 'notes') bucket.generations += 1;
+    bucket.inputTokens += usage.inputTokens;
+    bucket.outputTokens += usage.outputTokens;
+    bucket.audioSeconds += usage.audioSeconds;
+    bucket.costUsd += usage.costUsd ?? 0;
+    bucket.hasUnpricedUsage ||= usage.costUsd === null;
+    buckets.set(start.getTime(), bucket);
+  });
+  return [...buckets.values()].sort((a, b) => b.start.getTime() - a.start.getTime());
+};
+
+export const spentThisMonth = (usages: NoteUsage[], now = new Date()): number => {
+  const monthStart = periodStart(now, 'month').getTime();
+  return usages
+    .filter(usage => new Date(usage.createdAt).getTime() >= monthStart)
+    .reduce((total, usage) => total + (usage.costUsd ?? 0), 0);
+};
+
+export const formatCost = (usd: number) => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+// Explains why generating a recording is close to or over the monthly budget,
+// or returns null when it isn't or no budget is set.
+export const checkBudget = (usages: NoteUsage[], { monthlyBudgetUsd }: UsageSettings, estimatedCostUsd: number | null): string | null => {
+  if (monthlyBudgetUsd === null) return null;
+  const spent = spentThisMonth(usages);
+  const budget = formatCost(monthlyBudgetUsd);
+  if (spent >= monthlyBudgetUsd) {
+    return `You have spent ${formatCost(spent)} this month, which is over your ${budget} monthly budget.`;
+  }
+  if (estimatedCostUsd !== null && spent + estimatedCostUsd > monthlyBudgetUsd) {
+    return `This recording will cost at least ${formatCost(estimatedCostUsd)}, which would take you over your ${budget} monthly budget (${formatCost(spent)} spent so far).`;
+  }
+  if (spent >= monthlyBudgetUsd * BUDGET_WARNING_FRACTION) {
+    return `You have spent ${formatCost(spent)} of your ${budget} monthly budget.`;
+  }
+  return null;
+};